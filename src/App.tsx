@@ -6,35 +6,142 @@ import {
   } from "react-router-dom";
   import RootLayout from "./layouts/RootLayout";
   import Post from "./pages/Posts";
+  import PostDetail from "./pages/PostDetail";
   import Product from "./pages/Product";
   import Recipes from "./pages/Recipes";
-  import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+  import RecipeDetail from "./pages/RecipeDetail";
+  import MealPlan from "./pages/MealPlan";
+  import { MutationCache, QueryClient } from "@tanstack/react-query";
+  import { PersistQueryClientProvider } from "@tanstack/react-query-persist-client";
   import ProductDetail from "./pages/ProductDetail";
+  import ProductForm from "./pages/ProductForm";
   import Home from "./pages/Home";
   import Comments from "./pages/Comments";
   import Todos from "./pages/Todos";
+  import Carts from "./pages/Carts";
+  import CartDetail from "./pages/CartDetail";
+  import CartProvider from "./context/CartProvider";
+  import MealPlanProvider from "./context/MealPlanProvider";
+  import TodoMetaProvider from "./context/TodoMetaProvider";
+  import PostReactionsProvider from "./context/PostReactionsProvider";
+  import AuthProvider from "./context/AuthProvider";
+  import RequireAuth from "./components/RequireAuth";
+  import Login from "./pages/Login";
+  import Users from "./pages/Users";
+  import UserDetail from "./pages/UserDetail";
+  import Profile from "./pages/Profile";
+  import Settings from "./pages/Settings";
+  import NotFound from "./pages/NotFound";
+  import RouteError from "./components/RouteError";
+  import PreferencesProvider from "./context/PreferencesProvider";
+  import NotificationsProvider from "./context/NotificationsProvider";
+  import { notify } from "./utils/notify";
+  import { queryPersister } from "./utils/queryPersister";
+  import { registerMutationDefaults } from "./utils/mutationDefaults";
+  import { isConflict, isReplayable, trackQueuedMutations } from "./utils/offlineQueue";
+  import { isRetryable } from "./api/errors";
   
-  const queryClient = new QueryClient();
+  const CACHE_MAX_AGE = 1000 * 60 * 60 * 24;
+  
+  const queryClient = new QueryClient({
+	defaultOptions: {
+	  // Cached data has to outlive the persisted cache to be restored from it
+	  queries: {
+		gcTime: CACHE_MAX_AGE,
+		// A 404 or a rejected request won't succeed on a second attempt
+		retry: (failureCount, error) => isRetryable(error) && failureCount < 3,
+	  },
+	},
+	// Every mutation reports its outcome, using the messages from its `meta`
+	mutationCache: new MutationCache({
+	  onSuccess: (_data, _variables, _context, mutation) => {
+		if (mutation.meta?.silent) return;
+		notify({ kind: "success", title: mutation.meta?.successMessage ?? "Changes saved" });
+	  },
+	  onError: (error, _variables, _context, mutation) => {
+		if (mutation.meta?.silent) return;
+		if (isConflict(mutation, error)) {
+		  notify({
+			kind: "error",
+			title: `Conflict: ${mutation.meta?.errorMessage ?? "a queued change failed"}`,
+			message: "It changed or was removed on the server while you were offline, so your change was discarded.",
+		  });
+		  return;
+		}
+		notify({
+		  kind: "error",
+		  title: mutation.meta?.errorMessage ?? "Something went wrong",
+		  message: error.message,
+		});
+	  },
+	}),
+  });
+  registerMutationDefaults(queryClient);
+  trackQueuedMutations(queryClient);
   
   function App() {
 	const router = createBrowserRouter(
 	  createRoutesFromElements(
-		<Route path="/" element={<RootLayout />}>
-		  <Route index element={<Home/>}/>
-		  <Route path="product" element={<Product/>}/>
-		  <Route path="product/:id" element={<ProductDetail/>}/>
-		  <Route path="recipes" element={<Recipes />} />
-		  <Route path="posts" element={<Post />} />
-		  <Route path="comments" element={<Comments />} />
-		  <Route path="todos" element={<Todos />} />
+		<Route path="/" element={<RootLayout />} errorElement={<RouteError />}>
+		  {/* Errors inside a page render within the layout, keeping the navbar */}
+		  <Route errorElement={<RouteError />}>
+			<Route index element={<Home/>}/>
+			<Route path="product" element={<Product/>}/>
+			<Route path="product/:id" element={<ProductDetail/>}/>
+			<Route element={<RequireAuth />}>
+			  <Route path="product/new" element={<ProductForm/>}/>
+			  <Route path="product/:id/edit" element={<ProductForm/>}/>
+			  <Route path="profile" element={<Profile />} />
+			  <Route path="settings" element={<Settings />} />
+			</Route>
+			<Route path="recipes" element={<Recipes />} />
+			<Route path="recipes/:id" element={<RecipeDetail />} />
+			<Route path="meal-plan" element={<MealPlan />} />
+			<Route path="posts" element={<Post />} />
+			<Route path="posts/:id" element={<PostDetail />} />
+			<Route path="comments" element={<Comments />} />
+			<Route path="todos" element={<Todos />} />
+			<Route path="carts" element={<Carts />} />
+			<Route path="carts/:id" element={<CartDetail />} />
+			<Route path="users" element={<Users />} />
+			<Route path="users/:id" element={<UserDetail />} />
+			<Route path="login" element={<Login />} />
+			<Route path="*" element={<NotFound />} />
+		  </Route>
 		</Route>
 	  )
 	);
 	return (
 	  <>
-		<QueryClientProvider client={queryClient}>
-		  <RouterProvider router={router} />
-		</QueryClientProvider>
+		<PersistQueryClientProvider
+		  client={queryClient}
+		  persistOptions={{
+			persister: queryPersister,
+			maxAge: CACHE_MAX_AGE,
+			dehydrateOptions: {
+			  shouldDehydrateMutation: (mutation) =>
+				mutation.state.isPaused && isReplayable(queryClient, mutation.options.mutationKey),
+			},
+		  }}
+		  // Replay changes queued before the last reload, oldest first per resource
+		  onSuccess={() => queryClient.resumePausedMutations()}
+		>
+		  <NotificationsProvider>
+			<AuthProvider>
+			  <PreferencesProvider>
+				<CartProvider>
+				  <MealPlanProvider>
+					<TodoMetaProvider>
+					  <PostReactionsProvider>
+						<RouterProvider router={router} />
+					  </PostReactionsProvider>
+					</TodoMetaProvider>
+				  </MealPlanProvider>
+				</CartProvider>
+			  </PreferencesProvider>
+			</AuthProvider>
+		  </NotificationsProvider>
+		</PersistQueryClientProvider>
 	  </>
 	);
   }
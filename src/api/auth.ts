@@ -0,0 +1,33 @@
+import axios from "../utils/AxiosInstance";
+
+export interface AuthUser {
+  id: number;
+  username: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  gender: string;
+  image: string;
+}
+
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export type LoginResponse = AuthUser & AuthTokens;
+
+export const login = async (credentials: Credentials): Promise<LoginResponse> => {
+  const res = await axios.post<LoginResponse>("/auth/login", credentials);
+  return res.data;
+};
+
+export const fetchCurrentUser = async (): Promise<AuthUser> => {
+  const res = await axios.get<AuthUser>("/auth/me");
+  return res.data;
+};
@@ -0,0 +1,66 @@
+import axios from "../utils/AxiosInstance";
+import type { Deleted, ListParams, ListResponse } from "./types";
+
+export interface CartProduct {
+  id: number;
+  title: string;
+  price: number;
+  quantity: number;
+  total: number;
+  discountPercentage: number;
+  discountedTotal: number;
+  thumbnail: string;
+}
+
+export interface Cart {
+  id: number;
+  products: CartProduct[];
+  total: number;
+  discountedTotal: number;
+  userId: number;
+  totalProducts: number;
+  totalQuantity: number;
+}
+
+// A product reference as accepted by the cart write endpoints
+export interface CartLine {
+  id: number;
+  quantity: number;
+}
+
+export interface CartUpdate {
+  merge: boolean;
+  products: CartLine[];
+}
+
+export type CartList = ListResponse<"carts", Cart>;
+
+export const fetchCarts = async (params: ListParams = {}): Promise<CartList> => {
+  const res = await axios.get<CartList>("/carts", { params });
+  return res.data;
+};
+
+export const fetchCart = async (id: number | string): Promise<Cart> => {
+  const res = await axios.get<Cart>(`/carts/${id}`);
+  return res.data;
+};
+
+export const fetchUserCarts = async (userId: number | string, params: ListParams = {}): Promise<CartList> => {
+  const res = await axios.get<CartList>(`/carts/user/${userId}`, { params });
+  return res.data;
+};
+
+export const createCart = async (cart: { userId: number; products: CartLine[] }): Promise<Cart> => {
+  const res = await axios.post<Cart>("/carts/add", cart);
+  return res.data;
+};
+
+export const updateCart = async (id: number | string, update: CartUpdate): Promise<Cart> => {
+  const res = await axios.put<Cart>(`/carts/${id}`, update);
+  return res.data;
+};
+
+export const deleteCart = async (id: number | string): Promise<Deleted<Cart>> => {
+  const res = await axios.delete<Deleted<Cart>>(`/carts/${id}`);
+  return res.data;
+};
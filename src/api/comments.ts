@@ -0,0 +1,63 @@
+import axios from "../utils/AxiosInstance";
+import type { Deleted, ListParams, ListResponse } from "./types";
+
+// The author summary DummyJSON embeds in every comment
+export interface CommentUser {
+  id: number;
+  username: string;
+  fullName: string;
+}
+
+export interface Comment {
+  id: number;
+  body: string;
+  postId: number;
+  likes: number;
+  user: CommentUser;
+}
+
+export type NewComment = Pick<Comment, "body" | "postId" | "user">;
+
+export type CommentList = ListResponse<"comments", Comment>;
+
+export const fetchComments = async (params: ListParams = {}): Promise<CommentList> => {
+  const res = await axios.get<CommentList>("/comments", { params });
+  return res.data;
+};
+
+export const fetchComment = async (id: number | string): Promise<Comment> => {
+  const res = await axios.get<Comment>(`/comments/${id}`);
+  return res.data;
+};
+
+export const fetchPostComments = async (postId: number | string, params: ListParams = {}): Promise<CommentList> => {
+  const res = await axios.get<CommentList>(`/posts/${postId}/comments`, { params });
+  return res.data;
+};
+
+// DummyJSON has no per-user comments endpoint, so every comment is fetched,
+// filtered by author and paged here
+export const fetchUserComments = async (
+  userId: number | string,
+  { limit = 30, skip = 0 }: ListParams = {}
+): Promise<CommentList> => {
+  const all = await fetchComments({ limit: 0 });
+  const comments = all.comments.filter((comment) => comment.user.id === Number(userId));
+  return { comments: comments.slice(skip, skip + limit), total: comments.length, skip, limit };
+};
+
+// DummyJSON takes the author as a userId, and new comments start without likes
+export const createComment = async ({ user, ...comment }: NewComment): Promise<Comment> => {
+  const res = await axios.post<Omit<Comment, "likes">>("/comments/add", { ...comment, userId: user.id });
+  return { likes: 0, ...res.data };
+};
+
+export const updateComment = async ({ id, body }: Comment): Promise<Comment> => {
+  const res = await axios.put<Comment>(`/comments/${id}`, { body });
+  return res.data;
+};
+
+export const deleteComment = async (id: number): Promise<Deleted<Comment>> => {
+  const res = await axios.delete<Deleted<Comment>>(`/comments/${id}`);
+  return res.data;
+};
@@ -0,0 +1,42 @@
+import { isAxiosError } from "axios";
+
+export type ApiErrorKind = "notFound" | "unauthorized" | "client" | "server" | "network";
+
+// Every failed request made through utils/AxiosInstance is rejected with an
+// ApiError, so pages can tell "this doesn't exist" apart from "couldn't load
+// it right now" without digging through the axios response.
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+
+  constructor(message: string, kind: ApiErrorKind, status?: number) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+const kindFromStatus = (status: number | undefined): ApiErrorKind => {
+  if (status === undefined) return "network";
+  if (status === 404) return "notFound";
+  if (status === 401 || status === 403) return "unauthorized";
+  return status >= 500 ? "server" : "client";
+};
+
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+  if (isAxiosError<{ message?: string }>(error)) {
+    const status = error.response?.status;
+    // DummyJSON explains most failures, e.g. "Product with id '999' not found"
+    const message = error.response?.data?.message ?? error.message;
+    return new ApiError(message, kindFromStatus(status), status);
+  }
+  return new ApiError(error instanceof Error ? error.message : String(error), "network");
+};
+
+// Missing resources and rejected requests fail the same way every time
+export const isRetryable = (error: unknown) => {
+  const { kind } = toApiError(error);
+  return kind === "network" || kind === "server";
+};
@@ -0,0 +1,84 @@
+import axios from "../utils/AxiosInstance";
+import type { Deleted, ListParams, ListResponse } from "./types";
+
+export interface Post {
+  id: number;
+  title: string;
+  body: string;
+  tags: string[];
+  views: number;
+  reactions: {
+    likes: number;
+    dislikes: number;
+  };
+  userId: number;
+}
+
+export type NewPost = Pick<Post, "title" | "body" | "tags" | "userId">;
+
+export type PostList = ListResponse<"posts", Post>;
+
+// DummyJSON sorts by any plain field; "newest" is the highest id first
+export type PostSortField = "id" | "views";
+
+export interface PostListParams extends ListParams {
+  q?: string;
+  tag?: string;
+  sortBy?: PostSortField;
+  order?: "asc" | "desc";
+}
+
+export interface PostTag {
+  slug: string;
+  name: string;
+  url: string;
+}
+
+// Search and tag browsing are separate DummyJSON endpoints and can't be
+// combined, so a search query takes precedence over a tag
+export const fetchPosts = async ({ q, tag, ...params }: PostListParams = {}): Promise<PostList> => {
+  if (q) {
+    const res = await axios.get<PostList>("/posts/search", { params: { ...params, q } });
+    return res.data;
+  }
+  const url = tag ? `/posts/tag/${encodeURIComponent(tag)}` : "/posts";
+  const res = await axios.get<PostList>(url, { params });
+  return res.data;
+};
+
+export const fetchPost = async (id: number | string): Promise<Post> => {
+  const res = await axios.get<Post>(`/posts/${id}`);
+  return res.data;
+};
+
+export const fetchUserPosts = async (userId: number | string, params: ListParams = {}): Promise<PostList> => {
+  const res = await axios.get<PostList>(`/posts/user/${userId}`, { params });
+  return res.data;
+};
+
+export const fetchPostTags = async (): Promise<PostTag[]> => {
+  const res = await axios.get<PostTag[]>("/posts/tags");
+  return res.data;
+};
+
+// DummyJSON echoes new posts back without any views or reactions
+export const createPost = async (post: NewPost): Promise<Post> => {
+  const res = await axios.post<NewPost & { id: number }>("/posts/add", post);
+  return { views: 0, reactions: { likes: 0, dislikes: 0 }, ...res.data };
+};
+
+export const updatePost = async ({ id, ...post }: Partial<Post> & { id: number }): Promise<Post> => {
+  const res = await axios.put<Post>(`/posts/${id}`, post);
+  return res.data;
+};
+
+// Only the counts are sent; DummyJSON echoes the post back with them applied
+export const reactToPost = async ({ id, reactions }: Post): Promise<Post> => {
+  const res = await axios.put<Post>(`/posts/${id}`, { reactions });
+  return res.data;
+};
+
+export const deletePost = async (id: number): Promise<Deleted<Post>> => {
+  const res = await axios.delete<Deleted<Post>>(`/posts/${id}`);
+  return res.data;
+};
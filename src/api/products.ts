@@ -0,0 +1,98 @@
+import axios from "../utils/AxiosInstance";
+import type { Deleted, ListParams, ListResponse } from "./types";
+
+export interface Review {
+  rating: number;
+  comment: string;
+  date: string; // ISO date string
+  reviewerName: string;
+  reviewerEmail: string;
+}
+
+export interface Product {
+  id: number;
+  title: string;
+  description: string;
+  category: string;
+  price: number;
+  discountPercentage: number;
+  rating: number;
+  stock: number;
+  tags: string[];
+  brand: string;
+  sku: string;
+  weight: number;
+  dimensions: {
+    width: number;
+    height: number;
+    depth: number;
+  };
+  warrantyInformation: string;
+  shippingInformation: string;
+  availabilityStatus: string;
+  reviews: Review[];
+  returnPolicy: string;
+  minimumOrderQuantity: number;
+  meta: {
+    createdAt: string; // ISO date string
+    updatedAt: string; // ISO date string
+    barcode: string;
+    qrCode: string;
+  };
+  images: string[];
+  thumbnail: string;
+}
+
+export type ProductList = ListResponse<"products", Product>;
+
+export interface ProductCategory {
+  slug: string;
+  name: string;
+  url: string;
+}
+
+export type ProductSortField = "price" | "rating" | "title";
+
+export interface ProductListParams extends ListParams {
+  q?: string;
+  category?: string;
+  sortBy?: ProductSortField;
+  order?: "asc" | "desc";
+}
+
+// DummyJSON has separate endpoints for search and category browsing, and
+// they can't be combined, so a search query takes precedence over a category.
+export const fetchProducts = async ({ q, category, ...params }: ProductListParams = {}): Promise<ProductList> => {
+  if (q) {
+    const res = await axios.get<ProductList>("/products/search", { params: { ...params, q } });
+    return res.data;
+  }
+  const url = category ? `/products/category/${encodeURIComponent(category)}` : "/products";
+  const res = await axios.get<ProductList>(url, { params });
+  return res.data;
+};
+
+export const fetchProductCategories = async (): Promise<ProductCategory[]> => {
+  const res = await axios.get<ProductCategory[]>("/products/categories");
+  return res.data;
+};
+
+export const fetchProduct = async (id: number | string): Promise<Product> => {
+  const res = await axios.get<Product>(`/products/${id}`);
+  return res.data;
+};
+
+export const createProduct = async (product: Omit<Product, "id">): Promise<Product> => {
+  const res = await axios.post<Product>("/products/add", product);
+  return res.data;
+};
+
+export const updateProduct = async ({ id, ...product }: Product): Promise<Product> => {
+  const res = await axios.put<Product>(`/products/${id}`, product);
+  return res.data;
+};
+
+export const deleteProduct = async (id: number | string): Promise<Deleted<Product>> => {
+  const res = await axios.delete<Deleted<Product>>(`/products/${id}`);
+  return res.data;
+};
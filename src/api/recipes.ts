@@ -0,0 +1,95 @@
+import axios from "../utils/AxiosInstance";
+import type { Deleted, ListParams, ListResponse } from "./types";
+
+export type RecipeDifficulty = "Easy" | "Medium" | "Hard";
+
+export interface Recipe {
+  id: number;
+  name: string;
+  ingredients: string[];
+  instructions: string[];
+  prepTimeMinutes: number;
+  cookTimeMinutes: number;
+  servings: number;
+  difficulty: RecipeDifficulty;
+  cuisine: string;
+  caloriesPerServing: number;
+  tags: string[];
+  userId: number;
+  image: string;
+  rating: number;
+  reviewCount: number;
+  mealType: string[];
+}
+
+// Ratings come from other users' reviews, so they aren't part of the form
+export type NewRecipe = Omit<Recipe, "id" | "rating" | "reviewCount">;
+
+export const recipeDifficulties: RecipeDifficulty[] = ["Easy", "Medium", "Hard"];
+
+// DummyJSON has no endpoint listing meal types; these are the ones it uses
+export const recipeMealTypes = [
+  "Breakfast",
+  "Lunch",
+  "Dinner",
+  "Snack",
+  "Dessert",
+  "Side Dish",
+  "Appetizer",
+  "Beverage",
+];
+
+export type RecipeList = ListResponse<"recipes", Recipe>;
+
+export interface RecipeListParams extends ListParams {
+  q?: string;
+  tag?: string;
+  mealType?: string;
+}
+
+// Search, tag and meal type each have their own DummyJSON endpoint and can't
+// be combined, so they take precedence in that order
+export const fetchRecipes = async ({ q, tag, mealType, ...params }: RecipeListParams = {}): Promise<RecipeList> => {
+  if (q) {
+    const res = await axios.get<RecipeList>("/recipes/search", { params: { ...params, q } });
+    return res.data;
+  }
+  const url = tag
+    ? `/recipes/tag/${encodeURIComponent(tag)}`
+    : mealType
+      ? `/recipes/meal-type/${encodeURIComponent(mealType.toLowerCase())}`
+      : "/recipes";
+  const res = await axios.get<RecipeList>(url, { params });
+  return res.data;
+};
+
+export const fetchRecipeTags = async (): Promise<string[]> => {
+  const res = await axios.get<string[]>("/recipes/tags");
+  return res.data;
+};
+
+// There is no cuisine endpoint, so the list is collected from every recipe
+export const fetchRecipeCuisines = async (): Promise<string[]> => {
+  const res = await axios.get<RecipeList>("/recipes", { params: { limit: 0, select: "cuisine" } });
+  return [...new Set(res.data.recipes.map((recipe) => recipe.cuisine))].sort();
+};
+
+export const fetchRecipe = async (id: number | string): Promise<Recipe> => {
+  const res = await axios.get<Recipe>(`/recipes/${id}`);
+  return res.data;
+};
+
+export const createRecipe = async (recipe: NewRecipe): Promise<Recipe> => {
+  const res = await axios.post<NewRecipe & { id: number }>("/recipes/add", recipe);
+  return { rating: 0, reviewCount: 0, ...res.data };
+};
+
+export const updateRecipe = async ({ id, ...recipe }: Recipe): Promise<Recipe> => {
+  const res = await axios.put<Recipe>(`/recipes/${id}`, recipe);
+  return res.data;
+};
+
+export const deleteRecipe = async (id: number): Promise<Deleted<Recipe>> => {
+  const res = await axios.delete<Deleted<Recipe>>(`/recipes/${id}`);
+  return res.data;
+};
@@ -0,0 +1,41 @@
+import axios from "../utils/AxiosInstance";
+import type { Deleted, ListParams, ListResponse } from "./types";
+
+export interface Todo {
+  id: number;
+  todo: string;
+  completed: boolean;
+  userId: number;
+}
+
+export type TodoList = ListResponse<"todos", Todo>;
+
+export const fetchTodos = async (params: ListParams = {}): Promise<TodoList> => {
+  const res = await axios.get<TodoList>("/todos", { params });
+  return res.data;
+};
+
+export const fetchTodo = async (id: number | string): Promise<Todo> => {
+  const res = await axios.get<Todo>(`/todos/${id}`);
+  return res.data;
+};
+
+export const fetchUserTodos = async (userId: number | string, params: ListParams = {}): Promise<TodoList> => {
+  const res = await axios.get<TodoList>(`/todos/user/${userId}`, { params });
+  return res.data;
+};
+
+export const createTodo = async (todo: Omit<Todo, "id">): Promise<Todo> => {
+  const res = await axios.post<Todo>("/todos/add", todo);
+  return res.data;
+};
+
+export const updateTodo = async ({ id, todo, completed }: Todo): Promise<Todo> => {
+  const res = await axios.put<Todo>(`/todos/${id}`, { todo, completed });
+  return res.data;
+};
+
+export const deleteTodo = async (id: number): Promise<Deleted<Todo>> => {
+  const res = await axios.delete<Deleted<Todo>>(`/todos/${id}`);
+  return res.data;
+};
@@ -0,0 +1,21 @@
+// DummyJSON wraps every list in an envelope keyed by the resource name,
+// e.g. { products: [...], total: 194, skip: 0, limit: 30 }
+export type ListResponse<K extends string, T> = {
+  [P in K]: T[];
+} & {
+  total: number;
+  skip: number;
+  limit: number;
+};
+
+// Shape DummyJSON returns for DELETE requests
+export type Deleted<T> = T & {
+  isDeleted: boolean;
+  deletedOn: string;
+};
+
+// Pagination accepted by every DummyJSON list endpoint
+export interface ListParams {
+  limit?: number;
+  skip?: number;
+}
@@ -0,0 +1,71 @@
+import axios from "../utils/AxiosInstance";
+import type { ListParams, ListResponse } from "./types";
+
+export interface Address {
+  address: string;
+  city: string;
+  state: string;
+  stateCode: string;
+  postalCode: string;
+  coordinates: {
+    lat: number;
+    lng: number;
+  };
+  country: string;
+}
+
+export interface User {
+  id: number;
+  firstName: string;
+  lastName: string;
+  maidenName: string;
+  age: number;
+  gender: string;
+  email: string;
+  phone: string;
+  username: string;
+  birthDate: string;
+  image: string;
+  address: Address;
+  company: {
+    department: string;
+    name: string;
+    title: string;
+    address: Address;
+  };
+  bank: {
+    cardExpire: string;
+    cardNumber: string;
+    cardType: string;
+    currency: string;
+    iban: string;
+  };
+  role: string;
+}
+
+export type UserList = ListResponse<"users", User>;
+
+// Fields needed to show who owns a post, todo or cart
+export type UserSummary = Pick<User, "id" | "firstName" | "lastName" | "image">;
+
+export const fetchUsers = async (params: ListParams = {}): Promise<UserList> => {
+  const res = await axios.get<UserList>("/users", { params });
+  return res.data;
+};
+
+export const fetchUser = async (id: number | string): Promise<User> => {
+  const res = await axios.get<User>(`/users/${id}`);
+  return res.data;
+};
+
+export const fetchUserSummary = async (id: number | string): Promise<UserSummary> => {
+  const res = await axios.get<UserSummary>(`/users/${id}`, {
+    params: { select: "firstName,lastName,image" },
+  });
+  return res.data;
+};
+
+export const updateUser = async ({ id, ...user }: Partial<User> & { id: number }): Promise<User> => {
+  const res = await axios.put<User>(`/users/${id}`, user);
+  return res.data;
+};
@@ -0,0 +1,41 @@
+import { useState } from "react";
+import useCart from "../hooks/useCart";
+import type { CartableProduct } from "../context/CartContext";
+
+const AddToCartForm = ({ product }: { product: CartableProduct }) => {
+  const { items, addItem } = useCart();
+  const inCart = items.find((item) => item.id === product.id)?.quantity ?? 0;
+  // The minimum order quantity only applies to the first units added
+  const minimum = inCart > 0 ? 1 : product.minimumOrderQuantity;
+  const available = product.stock - inCart;
+  const [quantity, setQuantity] = useState<number>(minimum);
+  const canAdd = available >= minimum && quantity >= minimum && quantity <= available;
+
+  return (
+    <div className="flex items-center space-x-2">
+      <input
+        type="number"
+        aria-label="Quantity"
+        min={minimum}
+        max={Math.max(available, 0)}
+        value={quantity}
+        onChange={(e) => setQuantity(Number(e.target.value))}
+        className="w-24 border p-2 rounded-lg"
+      />
+      <button
+        type="button"
+        disabled={!canAdd}
+        onClick={() => {
+          addItem(product, quantity);
+          setQuantity(1);
+        }}
+        className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-blue-300"
+      >
+        {available < minimum ? "Out of stock" : "Add to cart"}
+      </button>
+      {inCart > 0 && <p className="text-sm text-gray-500">{inCart} in cart</p>}
+    </div>
+  );
+};
+
+export default AddToCartForm;
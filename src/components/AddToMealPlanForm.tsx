@@ -0,0 +1,56 @@
+import { useState } from "react";
+import useMealPlan from "../hooks/useMealPlan";
+import {
+  MEAL_DAYS,
+  MEAL_SLOTS,
+  type MealDay,
+  type MealSlot,
+  type PlannableRecipe,
+} from "../context/MealPlanContext";
+
+// Meals are planned for the recipe's own servings unless given another count
+const AddToMealPlanForm = ({ recipe, servings }: { recipe: PlannableRecipe; servings?: number }) => {
+  const { meals, addMeal } = useMealPlan();
+  const [day, setDay] = useState<MealDay>("Monday");
+  const [slot, setSlot] = useState<MealSlot>("Dinner");
+  const planned = meals.filter((meal) => meal.recipe.id === recipe.id).length;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        aria-label="Day"
+        value={day}
+        onChange={(e) => setDay(e.target.value as MealDay)}
+        className="border p-2 rounded-lg text-sm"
+      >
+        {MEAL_DAYS.map((mealDay) => (
+          <option key={mealDay} value={mealDay}>
+            {mealDay}
+          </option>
+        ))}
+      </select>
+      <select
+        aria-label="Meal"
+        value={slot}
+        onChange={(e) => setSlot(e.target.value as MealSlot)}
+        className="border p-2 rounded-lg text-sm"
+      >
+        {MEAL_SLOTS.map((mealSlot) => (
+          <option key={mealSlot} value={mealSlot}>
+            {mealSlot}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={() => addMeal(recipe, day, slot, servings)}
+        className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all"
+      >
+        Add to plan
+      </button>
+      {planned > 0 && <p className="text-sm text-gray-500">Planned {planned}×</p>}
+    </div>
+  );
+};
+
+export default AddToMealPlanForm;
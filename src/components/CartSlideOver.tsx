@@ -0,0 +1,175 @@
+import { Dialog, DialogBackdrop, DialogPanel, DialogTitle } from "@headlessui/react";
+import { MinusIcon, PlusIcon, XMarkIcon } from "@heroicons/react/16/solid";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import useAuth from "../hooks/useAuth";
+import useAuthGuard from "../hooks/useAuthGuard";
+import useCart from "../hooks/useCart";
+import { createCart } from "../api/carts";
+import { addListItem } from "../utils/listCache";
+
+interface CartSlideOverProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const CartSlideOver = ({ open, onClose }: CartSlideOverProps) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const guard = useAuthGuard();
+  const { items, subtotal, discount, total, updateQuantity, removeItem, clearCart } = useCart();
+
+  const checkoutMutation = useMutation({
+    mutationFn: createCart,
+    meta: { successMessage: "Order placed", errorMessage: "Checkout failed" },
+    onSuccess: (cart) => {
+      addListItem(queryClient, ["carts"], "carts", cart);
+      clearCart();
+    },
+  });
+
+  const handleClose = () => {
+    onClose();
+    checkoutMutation.reset();
+  };
+
+  // Orders are placed for the signed-in user; anyone else is sent to sign in
+  // first, with the panel closed so it doesn't cover the login page
+  const checkout = () => {
+    guard((user) =>
+      checkoutMutation.mutate({ userId: user.id, products: items.map(({ id, quantity }) => ({ id, quantity })) })
+    );
+    if (!user) {
+      handleClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} className="relative z-20">
+      <DialogBackdrop
+        transition
+        className="fixed inset-0 bg-gray-500/75 transition-opacity duration-300 data-closed:opacity-0"
+      />
+      <div className="fixed inset-0 overflow-hidden">
+        <div className="pointer-events-none fixed inset-y-0 right-0 flex max-w-full pl-10">
+          <DialogPanel
+            transition
+            className="pointer-events-auto w-screen max-w-md transform transition duration-300 ease-in-out data-closed:translate-x-full"
+          >
+            <div className="flex h-full flex-col bg-white shadow-xl">
+              <div className="flex items-start justify-between p-6 border-b">
+                <DialogTitle className="text-lg font-medium text-gray-900">Shopping cart</DialogTitle>
+                <button
+                  type="button"
+                  onClick={handleClose}
+                  className="rounded-md p-1 text-gray-400 hover:text-gray-500"
+                >
+                  <span className="sr-only">Close panel</span>
+                  <XMarkIcon aria-hidden="true" className="size-6" />
+                </button>
+              </div>
+
+              <div className="flex-1 overflow-y-auto p-6">
+                {checkoutMutation.isSuccess ? (
+                  <div className="text-center text-gray-700 space-y-2">
+                    <p className="text-lg font-bold">Order placed!</p>
+                    <p>
+                      Cart #{checkoutMutation.data.id} totals $
+                      {checkoutMutation.data.discountedTotal.toFixed(2)}.
+                    </p>
+                    <Link to="/carts" onClick={handleClose} className="text-blue-500 hover:underline">
+                      View carts
+                    </Link>
+                  </div>
+                ) : items.length === 0 ? (
+                  <p className="text-center text-gray-500">Your cart is empty.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-200">
+                    {items.map((item) => (
+                      <li key={item.id} className="flex gap-4 py-4">
+                        <img
+                          src={item.thumbnail}
+                          alt={item.title}
+                          className="size-20 rounded-md bg-gray-200 object-cover"
+                        />
+                        <div className="flex flex-1 flex-col">
+                          <div className="flex justify-between text-sm font-medium text-gray-900">
+                            <h3>{item.title}</h3>
+                            <p>${(item.price * item.quantity).toFixed(2)}</p>
+                          </div>
+                          <p className="text-xs text-green-600">
+                            {item.discountPercentage.toFixed(2)}% off
+                          </p>
+                          <div className="mt-auto flex items-center justify-between text-sm">
+                            <div className="flex items-center gap-2">
+                              <button
+                                type="button"
+                                disabled={item.quantity <= item.minimumOrderQuantity}
+                                onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                                className="rounded-md border p-1 text-gray-600 disabled:opacity-40"
+                              >
+                                <span className="sr-only">Decrease quantity</span>
+                                <MinusIcon aria-hidden="true" className="size-4" />
+                              </button>
+                              <span>{item.quantity}</span>
+                              <button
+                                type="button"
+                                disabled={item.quantity >= item.stock}
+                                onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                                className="rounded-md border p-1 text-gray-600 disabled:opacity-40"
+                              >
+                                <span className="sr-only">Increase quantity</span>
+                                <PlusIcon aria-hidden="true" className="size-4" />
+                              </button>
+                            </div>
+                            <button
+                              type="button"
+                              onClick={() => removeItem(item.id)}
+                              className="font-medium text-red-500 hover:text-red-600"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {items.length > 0 && !checkoutMutation.isSuccess && (
+                <div className="border-t p-6 space-y-2 text-sm text-gray-700">
+                  <div className="flex justify-between">
+                    <p>Subtotal</p>
+                    <p>${subtotal.toFixed(2)}</p>
+                  </div>
+                  <div className="flex justify-between text-green-600">
+                    <p>Discount</p>
+                    <p>-${discount.toFixed(2)}</p>
+                  </div>
+                  <div className="flex justify-between text-base font-bold text-gray-900">
+                    <p>Total</p>
+                    <p>${total.toFixed(2)}</p>
+                  </div>
+                  {checkoutMutation.isError && (
+                    <p className="text-red-600">Checkout failed, please try again.</p>
+                  )}
+                  <button
+                    type="button"
+                    disabled={checkoutMutation.isPending}
+                    onClick={checkout}
+                    className="w-full bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-blue-300"
+                  >
+                    {checkoutMutation.isPending ? "Checking out..." : "Checkout"}
+                  </button>
+                </div>
+              )}
+            </div>
+          </DialogPanel>
+        </div>
+      </div>
+    </Dialog>
+  );
+};
+
+export default CartSlideOver;
@@ -0,0 +1,36 @@
+import { PhotoIcon } from "@heroicons/react/24/outline";
+import { useState } from "react";
+
+// An <img> that's lazy by default and shows a placeholder if the URL is broken
+const FallbackImage = ({
+  src,
+  alt,
+  className = "",
+  loading = "lazy",
+  ...props
+}: React.ImgHTMLAttributes<HTMLImageElement>) => {
+  // Tracked per URL, so switching to another image tries again
+  const [failedSrc, setFailedSrc] = useState<string | undefined>(undefined);
+
+  if (!src || failedSrc === src) {
+    return (
+      <div role="img" aria-label={alt} className={`flex items-center justify-center bg-gray-100 text-gray-400 ${className}`}>
+        <PhotoIcon aria-hidden="true" className="size-1/3 max-h-24 max-w-24" />
+      </div>
+    );
+  }
+
+  return (
+    <img
+      {...props}
+      src={src}
+      alt={alt}
+      loading={loading}
+      decoding="async"
+      onError={() => setFailedSrc(src)}
+      className={className}
+    />
+  );
+};
+
+export default FallbackImage;
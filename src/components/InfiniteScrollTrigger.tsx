@@ -0,0 +1,49 @@
+import { useEffect, useRef } from "react";
+
+interface InfiniteScrollTriggerProps {
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  onLoadMore: () => void;
+}
+
+// Loads the next page once the end of the list scrolls into view, with a
+// button fallback for keyboard users and browsers without IntersectionObserver
+const InfiniteScrollTrigger = ({ hasNextPage, isFetchingNextPage, onLoadMore }: InfiniteScrollTriggerProps) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage || isFetchingNextPage || !("IntersectionObserver" in window)) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, onLoadMore]);
+
+  return (
+    <div ref={sentinelRef} className="mt-8 flex justify-center">
+      {isFetchingNextPage ? (
+        <p className="text-gray-500">Loading more...</p>
+      ) : hasNextPage ? (
+        <button
+          type="button"
+          onClick={onLoadMore}
+          className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-all"
+        >
+          Load more
+        </button>
+      ) : (
+        <p className="text-gray-500">You've reached the end.</p>
+      )}
+    </div>
+  );
+};
+
+export default InfiniteScrollTrigger;
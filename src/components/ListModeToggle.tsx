@@ -0,0 +1,33 @@
+import type { ListMode } from "../hooks/usePaginatedList";
+
+interface ListModeToggleProps {
+  mode: ListMode;
+  onChange: (mode: ListMode) => void;
+}
+
+const modes: { value: ListMode; label: string }[] = [
+  { value: "pages", label: "Pages" },
+  { value: "infinite", label: "Infinite scroll" },
+];
+
+const ListModeToggle = ({ mode, onChange }: ListModeToggleProps) => {
+  return (
+    <div role="group" aria-label="List mode" className="inline-flex rounded-md shadow-xs">
+      {modes.map((option, index) => (
+        <button
+          key={option.value}
+          type="button"
+          aria-pressed={mode === option.value}
+          onClick={() => onChange(option.value)}
+          className={`px-3 py-2 text-sm ring-1 ring-gray-300 ${index === 0 ? "rounded-l-md" : "-ml-px rounded-r-md"} ${
+            mode === option.value ? "bg-blue-500 text-white ring-blue-500" : "bg-white text-gray-700 hover:bg-gray-50"
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ListModeToggle;
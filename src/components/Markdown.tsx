@@ -0,0 +1,23 @@
+import { useMemo } from "react";
+import { renderMarkdown } from "../utils/markdown";
+
+// Element styles for rendered Markdown, since there's no typography plugin
+const markdownClassName = [
+  "space-y-3 break-words",
+  "[&_h1]:text-2xl [&_h1]:font-bold [&_h2]:text-xl [&_h2]:font-bold [&_h3]:text-lg [&_h3]:font-semibold",
+  "[&_a]:text-blue-500 [&_a:hover]:underline",
+  "[&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-5 [&_ol]:pl-5",
+  "[&_blockquote]:border-l-4 [&_blockquote]:border-gray-300 [&_blockquote]:pl-3 [&_blockquote]:italic",
+  "[&_code]:rounded [&_code]:bg-gray-100 [&_code]:px-1 [&_code]:text-sm",
+  "[&_pre]:overflow-x-auto [&_pre]:rounded-lg [&_pre]:bg-gray-100 [&_pre]:p-3 [&_pre_code]:px-0",
+  "[&_img]:max-w-full [&_img]:rounded-lg",
+].join(" ");
+
+const Markdown = ({ source, className = "" }: { source: string; className?: string }) => {
+  const html = useMemo(() => renderMarkdown(source), [source]);
+
+  // renderMarkdown sanitizes, so this can't inject scripts
+  return <div className={`${markdownClassName} ${className}`} dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+export default Markdown;
@@ -1,13 +1,21 @@
 import { Disclosure, DisclosureButton, DisclosurePanel, Menu, MenuButton, MenuItem, MenuItems } from "@headlessui/react"
-import { Bars3Icon, BellIcon, XMarkIcon } from "@heroicons/react/16/solid"
-import { NavLink } from "react-router-dom"
+import { Bars3Icon, ShoppingCartIcon, XMarkIcon } from "@heroicons/react/16/solid"
+import { useState } from "react"
+import { Link, NavLink } from "react-router-dom"
+import useAuth from "../hooks/useAuth"
+import useCart from "../hooks/useCart"
+import CartSlideOver from "./CartSlideOver"
+import NotificationCenter from "./NotificationCenter"
 
 const navigation = [
 	{ name: 'Product', to: '/product', current: true },
 	{ name: 'Recipes', to: '/recipes', current: false },
+	{ name: 'Meal Plan', to: '/meal-plan', current: false },
 	{ name: 'Post', to: '/posts', current: false },
 	{ name: 'Comments', to: '/comments', current: false },
 	{ name: 'Todos', to: '/todos', current: false },
+	{ name: 'Carts', to: '/carts', current: false },
+	{ name: 'Users', to: '/users', current: false },
 ]
 
 function classNames(...classes: string[]) {
@@ -15,6 +23,10 @@ function classNames(...classes: string[]) {
 }
 
 const Navbar = () => {
+	const { totalQuantity } = useCart()
+	const { user, logout } = useAuth()
+	const [cartOpen, setCartOpen] = useState(false)
+
 	return (
 		<Disclosure as="nav" className="bg-gray-800">
 			<div className="mx-auto max-w-7xl px-2 sm:px-6 lg:px-8">
@@ -46,56 +58,75 @@ const Navbar = () => {
 					<div className="absolute inset-y-0 right-0 flex items-center pr-2 sm:static sm:inset-auto sm:ml-6 sm:pr-0">
 						<button
 							type="button"
-							className="relative rounded-full bg-gray-800 p-1 text-gray-400 hover:text-white focus:ring-2 focus:ring-white focus:ring-offset-2 focus:ring-offset-gray-800 focus:outline-hidden"
+							onClick={() => setCartOpen(true)}
+							className="relative mr-3 rounded-full bg-gray-800 p-1 text-gray-400 hover:text-white focus:ring-2 focus:ring-white focus:ring-offset-2 focus:ring-offset-gray-800 focus:outline-hidden"
 						>
 							<span className="absolute -inset-1.5" />
-							<span className="sr-only">View notifications</span>
-							<BellIcon aria-hidden="true" className="size-6" />
+							<span className="sr-only">Open cart</span>
+							<ShoppingCartIcon aria-hidden="true" className="size-6" />
+							{totalQuantity > 0 && (
+								<span className="absolute -top-1 -right-1 flex min-w-5 h-5 items-center justify-center rounded-full bg-indigo-500 px-1 text-xs font-medium text-white">
+									{totalQuantity}
+								</span>
+							)}
 						</button>
+						<CartSlideOver open={cartOpen} onClose={() => setCartOpen(false)} />
+
+						<NotificationCenter />
 
 						{/* Profile dropdown */}
-						<Menu as="div" className="relative ml-3">
-							<div>
-								<MenuButton className="relative flex rounded-full bg-gray-800 text-sm focus:ring-2 focus:ring-white focus:ring-offset-2 focus:ring-offset-gray-800 focus:outline-hidden">
-									<span className="absolute -inset-1.5" />
-									<span className="sr-only">Open user menu</span>
-									<img
-										alt=""
-										src="https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?ixlib=rb-1.2.1&ixid=eyJhcHBfaWQiOjEyMDd9&auto=format&fit=facearea&facepad=2&w=256&h=256&q=80"
-										className="size-8 rounded-full"
-									/>
-								</MenuButton>
-							</div>
-							<MenuItems
-								transition
-								className="absolute right-0 z-10 mt-2 w-48 origin-top-right rounded-md bg-white py-1 ring-1 shadow-lg ring-black/5 transition focus:outline-hidden data-closed:scale-95 data-closed:transform data-closed:opacity-0 data-enter:duration-100 data-enter:ease-out data-leave:duration-75 data-leave:ease-in"
+						{user ? (
+							<Menu as="div" className="relative ml-3">
+								<div>
+									<MenuButton className="relative flex rounded-full bg-gray-800 text-sm focus:ring-2 focus:ring-white focus:ring-offset-2 focus:ring-offset-gray-800 focus:outline-hidden">
+										<span className="absolute -inset-1.5" />
+										<span className="sr-only">Open user menu</span>
+										<img
+											alt=""
+											src={user.image}
+											className="size-8 rounded-full bg-gray-700"
+										/>
+									</MenuButton>
+								</div>
+								<MenuItems
+									transition
+									className="absolute right-0 z-10 mt-2 w-48 origin-top-right rounded-md bg-white py-1 ring-1 shadow-lg ring-black/5 transition focus:outline-hidden data-closed:scale-95 data-closed:transform data-closed:opacity-0 data-enter:duration-100 data-enter:ease-out data-leave:duration-75 data-leave:ease-in"
+								>
+									<MenuItem>
+										<Link
+											to="/profile"
+											className="block px-4 py-2 text-sm text-gray-700 data-focus:bg-gray-100 data-focus:outline-hidden"
+										>
+											Your Profile
+										</Link>
+									</MenuItem>
+									<MenuItem>
+										<Link
+											to="/settings"
+											className="block px-4 py-2 text-sm text-gray-700 data-focus:bg-gray-100 data-focus:outline-hidden"
+										>
+											Settings
+										</Link>
+									</MenuItem>
+									<MenuItem>
+										<button
+											type="button"
+											onClick={logout}
+											className="block w-full text-left px-4 py-2 text-sm text-gray-700 data-focus:bg-gray-100 data-focus:outline-hidden"
+										>
+											Sign out
+										</button>
+									</MenuItem>
+								</MenuItems>
+							</Menu>
+						) : (
+							<Link
+								to="/login"
+								className="ml-3 rounded-md px-3 py-2 text-sm font-medium text-gray-300 hover:bg-gray-700 hover:text-white"
 							>
-								<MenuItem>
-									<a
-										href="#"
-										className="block px-4 py-2 text-sm text-gray-700 data-focus:bg-gray-100 data-focus:outline-hidden"
-									>
-										Your Profile
-									</a>
-								</MenuItem>
-								<MenuItem>
-									<a
-										href="#"
-										className="block px-4 py-2 text-sm text-gray-700 data-focus:bg-gray-100 data-focus:outline-hidden"
-									>
-										Settings
-									</a>
-								</MenuItem>
-								<MenuItem>
-									<a
-										href="#"
-										className="block px-4 py-2 text-sm text-gray-700 data-focus:bg-gray-100 data-focus:outline-hidden"
-									>
-										Sign out
-									</a>
-								</MenuItem>
-							</MenuItems>
-						</Menu>
+								Sign in
+							</Link>
+						)}
 					</div>
 				</div>
 			</div>
@@ -0,0 +1,65 @@
+import { Popover, PopoverButton, PopoverPanel } from "@headlessui/react";
+import { BellIcon } from "@heroicons/react/16/solid";
+import useNotifications from "../hooks/useNotifications";
+import NotificationIcon from "./NotificationIcon";
+
+const NotificationCenter = () => {
+  const { notifications, unreadCount, markAllRead, clearNotifications } = useNotifications();
+
+  return (
+    <Popover className="relative">
+      {/* Opening the history counts as reading it */}
+      <PopoverButton
+        onClick={markAllRead}
+        className="relative rounded-full bg-gray-800 p-1 text-gray-400 hover:text-white focus:ring-2 focus:ring-white focus:ring-offset-2 focus:ring-offset-gray-800 focus:outline-hidden"
+      >
+        <span className="absolute -inset-1.5" />
+        <span className="sr-only">View notifications</span>
+        <BellIcon aria-hidden="true" className="size-6" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 flex min-w-5 h-5 items-center justify-center rounded-full bg-red-500 px-1 text-xs font-medium text-white">
+            {unreadCount}
+          </span>
+        )}
+      </PopoverButton>
+      <PopoverPanel
+        transition
+        anchor="bottom end"
+        className="z-20 mt-2 w-80 rounded-md bg-white shadow-lg ring-1 ring-black/5 transition data-closed:opacity-0"
+      >
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <h2 className="text-sm font-medium text-gray-900">Notifications</h2>
+          {notifications.length > 0 && (
+            <button
+              type="button"
+              onClick={clearNotifications}
+              className="text-sm text-blue-500 hover:underline"
+            >
+              Clear all
+            </button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-gray-500">No notifications yet.</p>
+        ) : (
+          <ul className="max-h-96 divide-y divide-gray-100 overflow-y-auto">
+            {notifications.map((notification) => (
+              <li key={notification.id} className="flex gap-3 px-4 py-3 text-sm">
+                <NotificationIcon kind={notification.kind} />
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900">{notification.title}</p>
+                  {notification.message && <p className="whitespace-pre-line text-gray-500">{notification.message}</p>}
+                  <p className="mt-1 text-xs text-gray-400">
+                    {new Date(notification.createdAt).toLocaleString()}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverPanel>
+    </Popover>
+  );
+};
+
+export default NotificationCenter;
@@ -0,0 +1,13 @@
+import { BellAlertIcon, CheckCircleIcon, ExclamationCircleIcon } from "@heroicons/react/16/solid";
+import type { NotificationKind } from "../utils/notify";
+
+const NotificationIcon = ({ kind }: { kind: NotificationKind }) =>
+  kind === "success" ? (
+    <CheckCircleIcon aria-hidden="true" className="size-5 shrink-0 text-green-500" />
+  ) : kind === "reminder" ? (
+    <BellAlertIcon aria-hidden="true" className="size-5 shrink-0 text-yellow-500" />
+  ) : (
+    <ExclamationCircleIcon aria-hidden="true" className="size-5 shrink-0 text-red-500" />
+  );
+
+export default NotificationIcon;
@@ -0,0 +1,32 @@
+import { useMutationState } from "@tanstack/react-query";
+import useOnlineStatus from "../hooks/useOnlineStatus";
+
+const OfflineBanner = () => {
+  const isOnline = useOnlineStatus();
+  const pendingCount = useMutationState({
+    filters: { predicate: (mutation) => mutation.state.isPaused },
+  }).length;
+
+  if (isOnline && pendingCount === 0) {
+    return null;
+  }
+
+  const changes = `${pendingCount} ${pendingCount === 1 ? "change" : "changes"}`;
+
+  return (
+    <div
+      role="status"
+      className={`px-4 py-2 text-center text-sm font-medium ${
+        isOnline ? "bg-blue-100 text-blue-800" : "bg-yellow-100 text-yellow-800"
+      }`}
+    >
+      {isOnline
+        ? `Back online, syncing ${changes}...`
+        : pendingCount > 0
+          ? `You're offline. ${changes} will be synced when you reconnect.`
+          : "You're offline. Changes you make will be synced when you reconnect."}
+    </div>
+  );
+};
+
+export default OfflineBanner;
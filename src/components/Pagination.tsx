@@ -0,0 +1,73 @@
+interface PaginationProps {
+  page: number;
+  pageCount: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+}
+
+// Page numbers shown around the current page, with gaps marked as null
+const visiblePages = (page: number, pageCount: number): (number | null)[] => {
+  const pages: (number | null)[] = [];
+  for (let p = 1; p <= pageCount; p++) {
+    if (p === 1 || p === pageCount || Math.abs(p - page) <= 1) {
+      pages.push(p);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+};
+
+const Pagination = ({ page, pageCount, pageSize, total, onPageChange }: PaginationProps) => {
+  const first = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const last = Math.min(page * pageSize, total);
+
+  return (
+    <nav aria-label="Pagination" className="mt-8 flex flex-col sm:flex-row items-center justify-between gap-4">
+      <p className="text-sm text-gray-700">
+        Showing <span className="font-medium">{first}</span> to <span className="font-medium">{last}</span> of{" "}
+        <span className="font-medium">{total}</span> results
+      </p>
+      <div className="flex items-center gap-1">
+        <button
+          type="button"
+          disabled={page <= 1}
+          onClick={() => onPageChange(page - 1)}
+          className="rounded-md px-3 py-2 text-sm text-gray-700 ring-1 ring-gray-300 hover:bg-gray-50 disabled:opacity-40"
+        >
+          Previous
+        </button>
+        {visiblePages(page, pageCount).map((p, index) =>
+          p === null ? (
+            <span key={`gap-${index}`} className="px-2 text-gray-500">
+              ...
+            </span>
+          ) : (
+            <button
+              key={p}
+              type="button"
+              aria-current={p === page ? "page" : undefined}
+              onClick={() => onPageChange(p)}
+              className={`rounded-md px-3 py-2 text-sm ring-1 ring-gray-300 ${
+                p === page ? "bg-blue-500 text-white ring-blue-500" : "text-gray-700 hover:bg-gray-50"
+              }`}
+            >
+              {p}
+            </button>
+          )
+        )}
+        <button
+          type="button"
+          disabled={page >= pageCount}
+          onClick={() => onPageChange(page + 1)}
+          className="rounded-md px-3 py-2 text-sm text-gray-700 ring-1 ring-gray-300 hover:bg-gray-50 disabled:opacity-40"
+        >
+          Next
+        </button>
+      </div>
+    </nav>
+  );
+};
+
+export default Pagination;
@@ -0,0 +1,232 @@
+import { useEffect, useRef, useState } from "react";
+import { Controller, FieldError, useForm } from "react-hook-form";
+import type { AuthUser } from "../api/auth";
+import type { Post } from "../api/posts";
+import useAuthGuard from "../hooks/useAuthGuard";
+import Markdown from "./Markdown";
+import TagInput from "./TagInput";
+
+export type PostComposerValues = Pick<Post, "title" | "body" | "tags">;
+
+type ComposerTab = "write" | "preview";
+
+type DraftStatus = "restored" | "saved";
+
+const DRAFT_DELAY = 500;
+
+const emptyPost: PostComposerValues = { title: "", body: "", tags: [] };
+
+// New posts share one draft; edits get one per post
+const draftKey = (postId?: number) => `postDraft:${postId ?? "new"}`;
+
+const loadDraft = (key: string): PostComposerValues | null => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Wraps the selection (or a placeholder) in Markdown syntax; `line` formats
+// prefix the start of the current line instead
+const FORMATS = [
+  { label: "Bold", before: "**", after: "**", placeholder: "bold text" },
+  { label: "Italic", before: "_", after: "_", placeholder: "italic text" },
+  { label: "Code", before: "`", after: "`", placeholder: "code" },
+  { label: "Link", before: "[", after: "](https://)", placeholder: "link text" },
+  { label: "Heading", before: "## ", after: "", placeholder: "Heading", line: true },
+  { label: "List", before: "- ", after: "", placeholder: "item", line: true },
+  { label: "Quote", before: "> ", after: "", placeholder: "quote", line: true },
+];
+
+const inputClassName = "border p-3 rounded-lg w-full";
+
+const Field = ({ label, error, children }: { label: string; error?: FieldError; children: React.ReactNode }) => (
+  <label className="flex flex-col gap-1 text-sm text-gray-700">
+    {label}
+    {children}
+    {error && <span className="text-red-600">{error.message}</span>}
+  </label>
+);
+
+interface PostComposerProps {
+  post?: Post;
+  onSubmit: (values: PostComposerValues, user: AuthUser) => void;
+  onCancel?: () => void;
+}
+
+const PostComposer = ({ post, onSubmit, onCancel }: PostComposerProps) => {
+  const guard = useAuthGuard();
+  const key = draftKey(post?.id);
+  const [restoredDraft] = useState<PostComposerValues | null>(() => loadDraft(key));
+  const [draftStatus, setDraftStatus] = useState<DraftStatus | null>(restoredDraft ? "restored" : null);
+  const [tab, setTab] = useState<ComposerTab>("write");
+  const bodyRef = useRef<HTMLTextAreaElement | null>(null);
+  const initialValues = post ? { title: post.title, body: post.body, tags: post.tags } : emptyPost;
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    watch,
+    getValues,
+    setValue,
+    formState: { errors },
+  } = useForm<PostComposerValues>({ defaultValues: restoredDraft ?? initialValues });
+  const body = watch("body");
+  const { ref: registerBody, ...bodyField } = register("body", { required: "Write something first" });
+
+  // Saves the draft a moment after typing stops
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout>;
+    const subscription = watch((values, { name }) => {
+      clearTimeout(timeout);
+      // Resetting the form (no field name) isn't an edit worth keeping
+      if (name === undefined) return;
+      timeout = setTimeout(() => {
+        localStorage.setItem(key, JSON.stringify(values));
+        setDraftStatus("saved");
+      }, DRAFT_DELAY);
+    });
+    return () => {
+      clearTimeout(timeout);
+      subscription.unsubscribe();
+    };
+  }, [watch, key]);
+
+  const discardDraft = () => {
+    localStorage.removeItem(key);
+    setDraftStatus(null);
+  };
+
+  const applyFormat = ({ before, after, placeholder, line }: (typeof FORMATS)[number]) => {
+    const textarea = bodyRef.current;
+    if (!textarea) return;
+    const value = getValues("body");
+    const { selectionStart, selectionEnd } = textarea;
+    const start = line ? value.lastIndexOf("\n", selectionStart - 1) + 1 : selectionStart;
+    const selected = value.slice(start, selectionEnd) || placeholder;
+    setValue("body", value.slice(0, start) + before + selected + after + value.slice(selectionEnd), {
+      shouldDirty: true,
+      shouldValidate: errors.body !== undefined,
+    });
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start + before.length, start + before.length + selected.length);
+    });
+  };
+
+  // Signed-out users keep their draft while they go and sign in
+  const submit = (values: PostComposerValues) =>
+    guard((user) => {
+      onSubmit(values, user);
+      reset(post ? values : emptyPost);
+      discardDraft();
+      setTab("write");
+    });
+
+  return (
+    <form onSubmit={handleSubmit(submit)} noValidate className="flex flex-col gap-4">
+      {draftStatus && (
+        <p className="flex flex-wrap items-center gap-2 text-sm text-gray-500" aria-live="polite">
+          {draftStatus === "restored" ? "Restored your unsaved draft." : "Draft saved."}
+          <button
+            type="button"
+            onClick={() => {
+              discardDraft();
+              reset(initialValues);
+            }}
+            className="text-blue-500 hover:underline"
+          >
+            Discard draft
+          </button>
+        </p>
+      )}
+      <Field label="Title" error={errors.title}>
+        <input className={inputClassName} {...register("title", { required: "Title is required" })} />
+      </Field>
+
+      {/* Body */}
+      <div className="flex flex-col gap-1 text-sm text-gray-700">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div role="group" aria-label="Editor mode" className="inline-flex rounded-lg shadow-sm">
+            {(["write", "preview"] as const).map((value) => (
+              <button
+                key={value}
+                type="button"
+                aria-pressed={tab === value}
+                onClick={() => setTab(value)}
+                className={`px-3 py-1 text-sm font-medium border capitalize first:rounded-l-lg last:rounded-r-lg ${
+                  tab === value ? "bg-blue-500 text-white border-blue-500" : "bg-white text-gray-700 hover:bg-gray-50"
+                }`}
+              >
+                {value}
+              </button>
+            ))}
+          </div>
+          {tab === "write" && (
+            <div role="toolbar" aria-label="Formatting" className="flex flex-wrap gap-1">
+              {FORMATS.map((format) => (
+                <button
+                  key={format.label}
+                  type="button"
+                  onClick={() => applyFormat(format)}
+                  className="rounded-md border px-2 py-1 text-xs text-gray-600 hover:bg-gray-50"
+                >
+                  {format.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <textarea
+          rows={8}
+          aria-label="Body"
+          placeholder="Write in Markdown..."
+          hidden={tab !== "write"}
+          className={inputClassName}
+          ref={(element) => {
+            registerBody(element);
+            bodyRef.current = element;
+          }}
+          {...bodyField}
+        />
+        {tab === "preview" && (
+          <div className="min-h-48 rounded-lg border p-3 text-gray-600">
+            {body.trim() ? <Markdown source={body} /> : <p className="text-gray-400">Nothing to preview.</p>}
+          </div>
+        )}
+        {errors.body && <span className="text-red-600">{errors.body.message}</span>}
+        <span className="text-xs text-gray-400">Markdown supported: **bold**, _italic_, `code`, lists and links.</span>
+      </div>
+
+      <Controller
+        control={control}
+        name="tags"
+        render={({ field }) => <TagInput value={field.value} onChange={field.onChange} />}
+      />
+
+      <div className="flex justify-end gap-2">
+        <button type="submit" className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all">
+          {post ? "Save" : "Add Post"}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-all"
+            onClick={() => {
+              discardDraft();
+              onCancel();
+            }}
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default PostComposer;
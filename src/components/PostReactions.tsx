@@ -0,0 +1,90 @@
+import { EyeIcon, HandThumbDownIcon, HandThumbUpIcon } from "@heroicons/react/16/solid";
+import { useMutation } from "@tanstack/react-query";
+import { reactToPost, type Post } from "../api/posts";
+import useAuthGuard from "../hooks/useAuthGuard";
+import usePostReactions from "../hooks/usePostReactions";
+import type { PostReaction } from "../context/PostReactionsContext";
+import { notify } from "../utils/notify";
+import { isOptimisticId } from "../utils/optimisticList";
+
+const countKeys: Record<PostReaction, keyof Post["reactions"]> = { like: "likes", dislike: "dislikes" };
+
+// Moves this browser's reaction from `from` to `to` in the post's counts
+const applyReaction = (reactions: Post["reactions"], from: PostReaction | null, to: PostReaction | null) => {
+  const next = { ...reactions };
+  if (from) next[countKeys[from]] = Math.max(0, next[countKeys[from]] - 1);
+  if (to) next[countKeys[to]] += 1;
+  return next;
+};
+
+const buttonClassName = (isActive: boolean, activeClassName: string) =>
+  `inline-flex items-center gap-1 rounded-full px-3 py-1 transition-all disabled:opacity-50 ${
+    isActive ? activeClassName : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+  }`;
+
+const PostReactions = ({ post }: { post: Post }) => {
+  const guard = useAuthGuard();
+  const { postReactions, setPostReaction } = usePostReactions();
+  const current = postReactions[post.id] ?? null;
+  // A post still being created has no id on the server to react to
+  const isUnsaved = isOptimisticId(post.id);
+
+  // The counts change straight away through utils/mutationDefaults; a toast
+  // for every click would be noise, so only failures are reported
+  const reactMutation = useMutation({
+    mutationKey: ["posts", "react"],
+    meta: { silent: true },
+    mutationFn: reactToPost,
+  });
+
+  // Clicking the current reaction again takes it back
+  const react = (reaction: PostReaction) =>
+    guard(() => {
+      const next = current === reaction ? null : reaction;
+      setPostReaction(post.id, next);
+      reactMutation.mutate(
+        { ...post, reactions: applyReaction(post.reactions, current, next) },
+        {
+          onError: (error) => {
+            setPostReaction(post.id, current);
+            notify({ kind: "error", title: "Couldn't save your reaction", message: error.message });
+          },
+        }
+      );
+    });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <button
+        type="button"
+        aria-pressed={current === "like"}
+        disabled={isUnsaved || reactMutation.isPending}
+        onClick={() => react("like")}
+        className={buttonClassName(current === "like", "bg-blue-500 text-white hover:bg-blue-600")}
+      >
+        <HandThumbUpIcon aria-hidden="true" className="size-4" />
+        <span className="sr-only">Like,</span>
+        {post.reactions.likes}
+        <span className="sr-only">likes</span>
+      </button>
+      <button
+        type="button"
+        aria-pressed={current === "dislike"}
+        disabled={isUnsaved || reactMutation.isPending}
+        onClick={() => react("dislike")}
+        className={buttonClassName(current === "dislike", "bg-red-500 text-white hover:bg-red-600")}
+      >
+        <HandThumbDownIcon aria-hidden="true" className="size-4" />
+        <span className="sr-only">Dislike,</span>
+        {post.reactions.dislikes}
+        <span className="sr-only">dislikes</span>
+      </button>
+      <span className="inline-flex items-center gap-1 text-gray-500">
+        <EyeIcon aria-hidden="true" className="size-4" />
+        {post.views} views
+      </span>
+    </div>
+  );
+};
+
+export default PostReactions;
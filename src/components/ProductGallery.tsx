@@ -0,0 +1,200 @@
+import { Dialog, DialogBackdrop, DialogPanel, DialogTitle } from "@headlessui/react";
+import { ArrowsPointingOutIcon, ChevronLeftIcon, ChevronRightIcon, XMarkIcon } from "@heroicons/react/16/solid";
+import { useState } from "react";
+import useSwipe from "../hooks/useSwipe";
+import FallbackImage from "./FallbackImage";
+
+interface ProductGalleryProps {
+  images: string[];
+  // A smaller copy of the first image
+  thumbnail: string;
+  title: string;
+}
+
+// Widths of DummyJSON's product images and thumbnails, which are square
+const IMAGE_WIDTH = 1000;
+const THUMBNAIL_WIDTH = 300;
+
+// The main image fills the gallery, up to its max-w-lg (32rem)
+const MAIN_SIZES = "(min-width: 32rem) 32rem, 100vw";
+// The strip's size-16 buttons, size-20 from sm up
+const STRIP_SIZES = "(min-width: 40rem) 5rem, 4rem";
+
+const navButtonClassName =
+  "absolute top-1/2 -translate-y-1/2 rounded-full bg-white/80 p-2 text-gray-700 shadow hover:bg-white";
+
+const ProductGallery = ({ images, thumbnail, title }: ProductGalleryProps) => {
+  const [index, setIndex] = useState<number>(0);
+  const [lightboxOpen, setLightboxOpen] = useState<boolean>(false);
+  // Where the pointer is over the main image, as percentages, while zoomed
+  const [zoomOrigin, setZoomOrigin] = useState<{ x: number; y: number } | null>(null);
+  const count = images.length;
+  // The product may be refetched with fewer images
+  const current = Math.min(index, count - 1);
+
+  const show = (next: number) => setIndex((next + count) % count);
+  const previous = () => show(current - 1);
+  const next = () => show(current + 1);
+  const swipe = useSwipe({ onPrevious: previous, onNext: next });
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const keys: Record<string, () => void> = {
+      ArrowLeft: previous,
+      ArrowRight: next,
+      Home: () => show(0),
+      End: () => show(count - 1),
+    };
+    if (keys[e.key]) {
+      e.preventDefault();
+      keys[e.key]();
+    }
+  };
+
+  const imageLabel = (position: number) => `${title}, image ${position + 1} of ${count}`;
+
+  // Only the first image has a smaller copy to offer; the others always load
+  // at full size
+  const sourceSet = (position: number) =>
+    position === 0 && thumbnail && thumbnail !== images[0]
+      ? `${thumbnail} ${THUMBNAIL_WIDTH}w, ${images[0]} ${IMAGE_WIDTH}w`
+      : undefined;
+
+  return (
+    // Arrow keys work from any of the gallery's buttons, the lightbox's
+    // included, since React events bubble out of its portal
+    <div
+      role="region"
+      aria-roledescription="carousel"
+      aria-label={`${title} images`}
+      onKeyDown={handleKeyDown}
+      className="w-full max-w-lg space-y-4"
+    >
+      {/* Main Image */}
+      <div className="group relative overflow-hidden rounded-lg bg-gray-100 shadow-lg" {...swipe}>
+        <button
+          type="button"
+          onClick={() => setLightboxOpen(true)}
+          onMouseMove={(e) => {
+            const rect = e.currentTarget.getBoundingClientRect();
+            setZoomOrigin({
+              x: ((e.clientX - rect.left) / rect.width) * 100,
+              y: ((e.clientY - rect.top) / rect.height) * 100,
+            });
+          }}
+          onMouseLeave={() => setZoomOrigin(null)}
+          className="block w-full cursor-zoom-in focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-blue-500"
+        >
+          <span className="sr-only">Open full screen</span>
+          <FallbackImage
+            src={images[current]}
+            srcSet={sourceSet(current)}
+            sizes={MAIN_SIZES}
+            alt={imageLabel(current)}
+            // The image shown first is the page's main content
+            loading={current === 0 ? "eager" : "lazy"}
+            style={zoomOrigin ? { transformOrigin: `${zoomOrigin.x}% ${zoomOrigin.y}%` } : undefined}
+            className={`aspect-square w-full object-contain transition-transform duration-200 ${zoomOrigin ? "scale-200" : ""}`}
+          />
+        </button>
+        <ArrowsPointingOutIcon
+          aria-hidden="true"
+          className="pointer-events-none absolute top-3 right-3 size-5 text-gray-500 opacity-0 transition-opacity group-hover:opacity-100"
+        />
+        {count > 1 && (
+          <>
+            <button type="button" onClick={previous} className={`${navButtonClassName} left-3`}>
+              <span className="sr-only">Previous image</span>
+              <ChevronLeftIcon aria-hidden="true" className="size-5" />
+            </button>
+            <button type="button" onClick={next} className={`${navButtonClassName} right-3`}>
+              <span className="sr-only">Next image</span>
+              <ChevronRightIcon aria-hidden="true" className="size-5" />
+            </button>
+            <p
+              aria-live="polite"
+              className="absolute bottom-3 left-1/2 -translate-x-1/2 rounded-full bg-black/50 px-3 py-1 text-xs text-white"
+            >
+              {current + 1} / {count}
+            </p>
+          </>
+        )}
+      </div>
+
+      {/* Thumbnails */}
+      {count > 1 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {images.map((image, position) => (
+            <button
+              key={image}
+              type="button"
+              aria-label={`Show image ${position + 1} of ${count}`}
+              aria-current={position === current}
+              onClick={() => show(position)}
+              className={`size-16 shrink-0 overflow-hidden rounded-md border-2 bg-gray-100 sm:size-20 ${
+                position === current ? "border-blue-500" : "border-transparent opacity-70 hover:opacity-100"
+              }`}
+            >
+              <FallbackImage
+                src={image}
+                srcSet={sourceSet(position)}
+                sizes={STRIP_SIZES}
+                alt=""
+                className="size-full object-cover"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Lightbox */}
+      <Dialog open={lightboxOpen} onClose={() => setLightboxOpen(false)} className="relative z-30">
+        <DialogBackdrop
+          transition
+          className="fixed inset-0 bg-black/90 transition-opacity duration-200 data-closed:opacity-0"
+        />
+        <div className="fixed inset-0 flex items-center justify-center p-4">
+          <DialogPanel
+            transition
+            className="relative flex size-full flex-col items-center justify-center transition duration-200 data-closed:scale-95 data-closed:opacity-0"
+            {...swipe}
+          >
+            <DialogTitle className="sr-only">{imageLabel(current)}</DialogTitle>
+            <FallbackImage
+              src={images[current]}
+              srcSet={sourceSet(current)}
+              sizes="100vw"
+              alt={imageLabel(current)}
+              loading="eager"
+              className="max-h-full max-w-full object-contain"
+            />
+            <button
+              type="button"
+              onClick={() => setLightboxOpen(false)}
+              className="absolute top-0 right-0 rounded-full p-2 text-white/80 hover:text-white"
+            >
+              <span className="sr-only">Close</span>
+              <XMarkIcon aria-hidden="true" className="size-6" />
+            </button>
+            {count > 1 && (
+              <>
+                <button type="button" onClick={previous} className={`${navButtonClassName} left-0`}>
+                  <span className="sr-only">Previous image</span>
+                  <ChevronLeftIcon aria-hidden="true" className="size-6" />
+                </button>
+                <button type="button" onClick={next} className={`${navButtonClassName} right-0`}>
+                  <span className="sr-only">Next image</span>
+                  <ChevronRightIcon aria-hidden="true" className="size-6" />
+                </button>
+                <p className="absolute bottom-0 text-sm text-white/80">
+                  {current + 1} / {count}
+                </p>
+              </>
+            )}
+          </DialogPanel>
+        </div>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ProductGallery;
@@ -0,0 +1,63 @@
+import { ExclamationTriangleIcon } from "@heroicons/react/16/solid";
+import { Link } from "react-router-dom";
+import { toApiError } from "../api/errors";
+
+interface QueryErrorProps {
+  error: unknown;
+  // What failed to load, e.g. "Product" or "Posts"
+  resource: string;
+  onRetry: () => void;
+  isRetrying?: boolean;
+  // Where to send the user when the resource doesn't exist
+  backTo?: { to: string; label: string };
+}
+
+const QueryError = ({ error, resource, onRetry, isRetrying = false, backTo }: QueryErrorProps) => {
+  const { kind, message } = toApiError(error);
+
+  // Retrying won't bring back something that isn't there
+  if (kind === "notFound") {
+    return (
+      <div className="text-center p-6 space-y-2">
+        <p className="text-xl font-bold text-gray-900 dark:text-white">{resource} not found</p>
+        <p className="text-gray-500">It may have been deleted, or the link is wrong.</p>
+        {backTo && (
+          <Link to={backTo.to} className="inline-block text-blue-500 hover:underline">
+            {backTo.label}
+          </Link>
+        )}
+      </div>
+    );
+  }
+
+  const title =
+    kind === "network"
+      ? "Can't reach the server"
+      : kind === "server"
+        ? "The server ran into a problem"
+        : `Couldn't load ${resource.toLowerCase()}`;
+  const hint =
+    kind === "network"
+      ? "Check your connection and try again."
+      : kind === "server"
+        ? "This is usually temporary, try again in a moment."
+        : message;
+
+  return (
+    <div role="alert" className="flex flex-col items-center gap-2 text-center p-6">
+      <ExclamationTriangleIcon aria-hidden="true" className="size-8 text-red-500" />
+      <p className="text-xl font-bold text-gray-900 dark:text-white">{title}</p>
+      <p className="text-gray-500">{hint}</p>
+      <button
+        type="button"
+        disabled={isRetrying}
+        onClick={() => onRetry()}
+        className="mt-2 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-blue-300"
+      >
+        {isRetrying ? "Retrying..." : "Try again"}
+      </button>
+    </div>
+  );
+};
+
+export default QueryError;
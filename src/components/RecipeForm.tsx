@@ -0,0 +1,237 @@
+import { useEffect, useState } from "react";
+import { FieldError, useForm } from "react-hook-form";
+import type { AuthUser } from "../api/auth";
+import {
+  recipeDifficulties,
+  recipeMealTypes,
+  type NewRecipe,
+  type Recipe,
+} from "../api/recipes";
+import useAuth from "../hooks/useAuth";
+import useAuthGuard from "../hooks/useAuthGuard";
+
+export type RecipeFormResult = Omit<NewRecipe, "userId">;
+
+// Lists are edited as plain text: ingredients and steps one per line, tags
+// comma separated
+interface RecipeFormValues
+  extends Omit<RecipeFormResult, "ingredients" | "instructions" | "tags"> {
+  ingredients: string;
+  instructions: string;
+  tags: string;
+}
+
+const emptyRecipe: RecipeFormValues = {
+  name: "",
+  ingredients: "",
+  instructions: "",
+  prepTimeMinutes: 0,
+  cookTimeMinutes: 0,
+  servings: 1,
+  difficulty: "Easy",
+  cuisine: "",
+  caloriesPerServing: 0,
+  tags: "",
+  image: "",
+  mealType: [],
+};
+
+const toFormValues = (recipe: Recipe): RecipeFormValues => ({
+  name: recipe.name,
+  ingredients: recipe.ingredients.join("\n"),
+  instructions: recipe.instructions.join("\n"),
+  prepTimeMinutes: recipe.prepTimeMinutes,
+  cookTimeMinutes: recipe.cookTimeMinutes,
+  servings: recipe.servings,
+  difficulty: recipe.difficulty,
+  cuisine: recipe.cuisine,
+  caloriesPerServing: recipe.caloriesPerServing,
+  tags: recipe.tags.join(", "),
+  image: recipe.image,
+  mealType: recipe.mealType,
+});
+
+// Kept while a signed-out user goes to sign in, one per recipe like the post
+// composer's drafts
+const draftKey = (recipeId?: number) => `recipeDraft:${recipeId ?? "new"}`;
+
+const loadDraft = (key: string): RecipeFormValues | null => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+const splitList = (value: string, separator: string | RegExp) =>
+  value
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const fromFormValues = ({ ingredients, instructions, tags, mealType, ...values }: RecipeFormValues): RecipeFormResult => ({
+  ...values,
+  ingredients: splitList(ingredients, "\n"),
+  instructions: splitList(instructions, "\n"),
+  tags: splitList(tags, ","),
+  // A group of checkboxes reports `false` when none are ticked
+  mealType: Array.isArray(mealType) ? mealType : [],
+});
+
+const inputClassName = "border p-3 rounded-lg w-full";
+
+const Field = ({
+  label,
+  error,
+  children,
+}: {
+  label: string;
+  error?: FieldError;
+  children: React.ReactNode;
+}) => (
+  <label className="flex flex-col gap-1 text-sm text-gray-700">
+    {label}
+    {children}
+    {error && <span className="text-red-600">{error.message}</span>}
+  </label>
+);
+
+interface RecipeFormProps {
+  recipe?: Recipe;
+  onSubmit: (recipe: RecipeFormResult, user: AuthUser) => void;
+  onCancel?: () => void;
+}
+
+const RecipeForm = ({ recipe, onSubmit, onCancel }: RecipeFormProps) => {
+  const { user } = useAuth();
+  const guard = useAuthGuard();
+  const key = draftKey(recipe?.id);
+  const [restoredDraft] = useState<RecipeFormValues | null>(() => loadDraft(key));
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<RecipeFormValues>({
+    defaultValues: restoredDraft ?? (recipe ? toFormValues(recipe) : emptyRecipe),
+  });
+
+  // A draft is only needed to get back to the form once
+  useEffect(() => {
+    localStorage.removeItem(key);
+  }, [key]);
+
+  // Signing in leaves this page, so what a signed-out user typed is saved as
+  // a draft and restored when they come back
+  const submit = (values: RecipeFormValues) => {
+    if (!user) {
+      localStorage.setItem(key, JSON.stringify(values));
+    }
+    guard((user) => {
+      onSubmit(fromFormValues(values), user);
+      if (!recipe) {
+        reset(emptyRecipe);
+      }
+    });
+  };
+
+  const numberOptions = {
+    valueAsNumber: true,
+    required: "Required",
+    min: { value: 0, message: "Must be positive" },
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit(submit)}
+      noValidate
+      className="grid grid-cols-1 sm:grid-cols-2 gap-4 bg-white p-6 shadow-md rounded-lg"
+    >
+      <div className="sm:col-span-2">
+        <Field label="Name" error={errors.name}>
+          <input className={inputClassName} {...register("name", { required: "Name is required" })} />
+        </Field>
+      </div>
+      <Field label="Cuisine" error={errors.cuisine}>
+        <input className={inputClassName} {...register("cuisine", { required: "Cuisine is required" })} />
+      </Field>
+      <Field label="Difficulty" error={errors.difficulty}>
+        <select className={inputClassName} {...register("difficulty")}>
+          {recipeDifficulties.map((difficulty) => (
+            <option key={difficulty} value={difficulty}>
+              {difficulty}
+            </option>
+          ))}
+        </select>
+      </Field>
+      <Field label="Prep time (minutes)" error={errors.prepTimeMinutes}>
+        <input type="number" className={inputClassName} {...register("prepTimeMinutes", numberOptions)} />
+      </Field>
+      <Field label="Cook time (minutes)" error={errors.cookTimeMinutes}>
+        <input type="number" className={inputClassName} {...register("cookTimeMinutes", numberOptions)} />
+      </Field>
+      <Field label="Servings" error={errors.servings}>
+        <input
+          type="number"
+          className={inputClassName}
+          {...register("servings", { ...numberOptions, min: { value: 1, message: "At least 1" } })}
+        />
+      </Field>
+      <Field label="Calories per serving" error={errors.caloriesPerServing}>
+        <input type="number" className={inputClassName} {...register("caloriesPerServing", numberOptions)} />
+      </Field>
+      <div className="sm:col-span-2">
+        <Field label="Image URL" error={errors.image}>
+          <input type="url" className={inputClassName} {...register("image")} />
+        </Field>
+      </div>
+      <div className="sm:col-span-2">
+        <Field label="Tags (comma separated)" error={errors.tags}>
+          <input className={inputClassName} {...register("tags")} />
+        </Field>
+      </div>
+      <fieldset className="sm:col-span-2 text-sm text-gray-700">
+        <legend className="mb-1">Meal type</legend>
+        <div className="flex flex-wrap gap-4">
+          {recipeMealTypes.map((mealType) => (
+            <label key={mealType} className="flex items-center gap-2">
+              <input type="checkbox" value={mealType} {...register("mealType")} />
+              {mealType}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+      <Field label="Ingredients (one per line)" error={errors.ingredients}>
+        <textarea
+          rows={6}
+          className={inputClassName}
+          {...register("ingredients", { required: "Add at least one ingredient" })}
+        />
+      </Field>
+      <Field label="Steps (one per line)" error={errors.instructions}>
+        <textarea
+          rows={6}
+          className={inputClassName}
+          {...register("instructions", { required: "Add at least one step" })}
+        />
+      </Field>
+      <div className="sm:col-span-2 flex justify-end gap-2">
+        <button type="submit" className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all">
+          {recipe ? "Save Changes" : "Add Recipe"}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-all"
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default RecipeForm;
@@ -0,0 +1,42 @@
+import { isRouteErrorResponse, Link, useRouteError } from "react-router-dom";
+import NotFound from "../pages/NotFound";
+
+// Shown by the router instead of its default error screen when a route
+// can't be matched or a page throws while rendering
+const RouteError = () => {
+  const error = useRouteError();
+
+  if (isRouteErrorResponse(error) && error.status === 404) {
+    return <NotFound />;
+  }
+
+  const message = isRouteErrorResponse(error)
+    ? error.statusText
+    : error instanceof Error
+      ? error.message
+      : "An unexpected error occurred.";
+
+  return (
+    <div role="alert" className="container mx-auto p-6 text-center space-y-4">
+      <h1 className="text-3xl font-bold dark:text-white">Something went wrong</h1>
+      <p className="text-gray-500">{message}</p>
+      <div className="flex justify-center gap-2">
+        <button
+          type="button"
+          onClick={() => window.location.reload()}
+          className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all"
+        >
+          Reload
+        </button>
+        <Link
+          to="/"
+          className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-all"
+        >
+          Back to home
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default RouteError;
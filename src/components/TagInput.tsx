@@ -0,0 +1,142 @@
+import { XMarkIcon } from "@heroicons/react/16/solid";
+import { useQuery } from "@tanstack/react-query";
+import { useId, useState } from "react";
+import { fetchPostTags } from "../api/posts";
+
+const MAX_SUGGESTIONS = 8;
+
+const normalizeTag = (tag: string) => tag.trim().toLowerCase();
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  label?: string;
+}
+
+// Tags as removable chips. Enter or a comma adds what's typed, Backspace on an
+// empty input removes the last chip, and existing post tags are suggested.
+const TagInput = ({ value, onChange, label = "Tags" }: TagInputProps) => {
+  const id = useId();
+  const listboxId = `${id}-suggestions`;
+  const [text, setText] = useState<string>("");
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [activeIndex, setActiveIndex] = useState<number>(-1);
+
+  const { data: allTags = [] } = useQuery({
+    queryKey: ["postTags"],
+    queryFn: fetchPostTags,
+    staleTime: Infinity,
+  });
+
+  const query = normalizeTag(text);
+  const suggestions = query
+    ? allTags
+        .filter(({ slug, name }) => !value.includes(slug) && (slug.includes(query) || name.toLowerCase().includes(query)))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+  const showSuggestions = isOpen && suggestions.length > 0;
+
+  const addTags = (tags: string[]) => {
+    const added = tags.map(normalizeTag).filter((tag, index, all) => tag && !value.includes(tag) && all.indexOf(tag) === index);
+    if (added.length > 0) onChange([...value, ...added]);
+    setText("");
+    setActiveIndex(-1);
+  };
+
+  const removeTag = (tag: string) => onChange(value.filter((current) => current !== tag));
+
+  // Typing or pasting "a, b," adds everything before the last comma
+  const handleChange = (next: string) => {
+    const parts = next.split(",");
+    if (parts.length > 1) {
+      addTags(parts.slice(0, -1));
+      setText(parts[parts.length - 1].trimStart());
+    } else {
+      setText(next);
+      setActiveIndex(-1);
+    }
+    setIsOpen(true);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" && suggestions.length > 0) {
+      e.preventDefault();
+      setIsOpen(true);
+      setActiveIndex((index) => (index + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp" && suggestions.length > 0) {
+      e.preventDefault();
+      setIsOpen(true);
+      setActiveIndex((index) => (index <= 0 ? suggestions.length - 1 : index - 1));
+    } else if (e.key === "Enter") {
+      // Never submits the surrounding form
+      e.preventDefault();
+      addTags([showSuggestions && activeIndex >= 0 ? suggestions[activeIndex].slug : text]);
+    } else if (e.key === "Escape" && showSuggestions) {
+      e.preventDefault();
+      setIsOpen(false);
+    } else if (e.key === "Backspace" && text === "" && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  return (
+    <div className="relative flex flex-col gap-1 text-sm text-gray-700">
+      <label htmlFor={id}>{label}</label>
+      <div className="flex flex-wrap items-center gap-2 rounded-lg border p-2 focus-within:ring-2 focus-within:ring-blue-500">
+        {value.map((tag) => (
+          <span key={tag} className="inline-flex items-center gap-1 rounded-full bg-blue-50 px-3 py-1 text-xs text-blue-700">
+            #{tag}
+            <button type="button" onClick={() => removeTag(tag)} className="text-blue-400 hover:text-blue-600">
+              <span className="sr-only">Remove tag {tag}</span>
+              <XMarkIcon aria-hidden="true" className="size-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          id={id}
+          type="text"
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={showSuggestions}
+          aria-controls={listboxId}
+          aria-activedescendant={showSuggestions && activeIndex >= 0 ? `${listboxId}-${activeIndex}` : undefined}
+          placeholder={value.length === 0 ? "Add tags..." : ""}
+          value={text}
+          onChange={(e) => handleChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsOpen(true)}
+          // Whatever is left in the input when leaving it becomes a tag
+          onBlur={() => {
+            setIsOpen(false);
+            if (text.trim()) addTags([text]);
+          }}
+          className="min-w-24 flex-1 p-1 outline-none"
+        />
+      </div>
+      {showSuggestions && (
+        <ul
+          id={listboxId}
+          role="listbox"
+          className="absolute top-full z-10 mt-1 max-h-60 w-full overflow-auto rounded-lg bg-white py-1 shadow-lg ring-1 ring-black/5"
+        >
+          {suggestions.map(({ slug, name }, index) => (
+            <li
+              key={slug}
+              id={`${listboxId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keeps focus in the input so its blur doesn't add the typed text
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTags([slug])}
+              className={`cursor-pointer px-3 py-2 ${index === activeIndex ? "bg-blue-500 text-white" : "hover:bg-gray-100"}`}
+            >
+              {name} <span className={index === activeIndex ? "text-blue-100" : "text-gray-400"}>#{slug}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
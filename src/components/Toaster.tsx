@@ -0,0 +1,50 @@
+import { XMarkIcon } from "@heroicons/react/16/solid";
+import useNotifications from "../hooks/useNotifications";
+import NotificationIcon from "./NotificationIcon";
+
+const Toaster = () => {
+  const { toasts, dismissToast } = useNotifications();
+
+  return (
+    <div
+      aria-live="polite"
+      className="pointer-events-none fixed top-20 right-4 z-30 flex w-full max-w-sm flex-col gap-2"
+    >
+      {toasts.map((toast) => (
+        <div
+          key={toast.id}
+          role={toast.kind === "error" ? "alert" : "status"}
+          className="pointer-events-auto flex items-start gap-3 rounded-lg bg-white p-4 shadow-lg ring-1 ring-black/5"
+        >
+          <NotificationIcon kind={toast.kind} />
+          <div className="flex-1 text-sm">
+            <p className="font-medium text-gray-900">{toast.title}</p>
+            {toast.message && <p className="mt-1 whitespace-pre-line text-gray-500">{toast.message}</p>}
+          </div>
+          {toast.action && (
+            <button
+              type="button"
+              onClick={() => {
+                toast.action?.onClick();
+                dismissToast(toast.id);
+              }}
+              className="text-sm font-medium text-blue-500 hover:text-blue-600"
+            >
+              {toast.action.label}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => dismissToast(toast.id)}
+            className="rounded-md text-gray-400 hover:text-gray-500"
+          >
+            <span className="sr-only">Dismiss</span>
+            <XMarkIcon aria-hidden="true" className="size-5" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default Toaster;
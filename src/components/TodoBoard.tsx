@@ -0,0 +1,180 @@
+import { Bars3Icon } from "@heroicons/react/16/solid";
+import { useEffect, useId, useRef, useState } from "react";
+import type { Todo } from "../api/todos";
+import useTodoMeta from "../hooks/useTodoMeta";
+import { BOARD_COLUMNS, type BoardColumn } from "../context/TodoMetaContext";
+import { buildBoardLayout, findCard, moveCard, type BoardLayout } from "../utils/todoBoard";
+
+interface TodoBoardProps {
+  todos: Todo[];
+  isPending: (id: number) => boolean;
+  // Called after a card is dropped, so moves into or out of Done can be synced
+  onMove: (todo: Todo, from: BoardColumn, to: BoardColumn) => void;
+}
+
+const columnLabel = (column: BoardColumn) => BOARD_COLUMNS.find(({ value }) => value === column)!.label;
+
+const TodoBoard = ({ todos, isPending, onMove }: TodoBoardProps) => {
+  const { todoMeta, updateTodoMeta } = useTodoMeta();
+  const instructionsId = useId();
+  const layout = buildBoardLayout(todos, todoMeta);
+  // While a card is picked up with the keyboard, moves only change this
+  // preview until the card is dropped (or Escape puts it back)
+  const [grabbed, setGrabbed] = useState<{ id: number; preview: BoardLayout } | null>(null);
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [announcement, setAnnouncement] = useState<string>("");
+  const handleRefs = useRef(new Map<number, HTMLButtonElement>());
+  const shownLayout = grabbed?.preview ?? layout;
+  const todoById = new Map(todos.map((todo) => [todo.id, todo]));
+
+  // A card moved to another column is a new element, so focus follows it
+  useEffect(() => {
+    if (grabbed) {
+      handleRefs.current.get(grabbed.id)?.focus();
+    }
+  }, [grabbed]);
+
+  const commit = (id: number, next: BoardLayout) => {
+    const todo = todoById.get(id);
+    if (!todo) return;
+    const from = findCard(layout, id).column;
+    const to = findCard(next, id).column;
+    const updates: Record<number, { column: BoardColumn; order: number }> = {};
+    new Set([from, to]).forEach((column) =>
+      next[column].forEach((cardId, order) => {
+        updates[cardId] = { column, order };
+      })
+    );
+    updateTodoMeta(updates);
+    onMove(todo, from, to);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, todo: Todo) => {
+    if (e.key === " " || e.key === "Enter") {
+      e.preventDefault();
+      if (!grabbed) {
+        setGrabbed({ id: todo.id, preview: layout });
+        setAnnouncement(`Picked up "${todo.todo}".`);
+      } else {
+        commit(grabbed.id, grabbed.preview);
+        const { column, index } = findCard(grabbed.preview, grabbed.id);
+        setAnnouncement(`Dropped "${todo.todo}" in ${columnLabel(column)} at position ${index + 1}.`);
+        setGrabbed(null);
+      }
+      return;
+    }
+    if (!grabbed) return;
+
+    if (e.key === "Escape") {
+      e.preventDefault();
+      setGrabbed(null);
+      setAnnouncement(`Move cancelled, "${todo.todo}" is back where it was.`);
+      return;
+    }
+
+    const { column, index } = findCard(grabbed.preview, grabbed.id);
+    const columnIndex = BOARD_COLUMNS.findIndex(({ value }) => value === column);
+    let target: { column: BoardColumn; index: number } | null = null;
+    if (e.key === "ArrowUp") target = { column, index: index - 1 };
+    if (e.key === "ArrowDown") target = { column, index: index + 1 };
+    if (e.key === "ArrowLeft" && columnIndex > 0) target = { column: BOARD_COLUMNS[columnIndex - 1].value, index };
+    if (e.key === "ArrowRight" && columnIndex < BOARD_COLUMNS.length - 1) {
+      target = { column: BOARD_COLUMNS[columnIndex + 1].value, index };
+    }
+    if (!target) return;
+
+    e.preventDefault();
+    const preview = moveCard(grabbed.preview, grabbed.id, target.column, target.index);
+    const moved = findCard(preview, grabbed.id);
+    setGrabbed({ id: grabbed.id, preview });
+    setAnnouncement(`${columnLabel(moved.column)}, position ${moved.index + 1} of ${preview[moved.column].length}.`);
+  };
+
+  const handleDrop = (e: React.DragEvent, column: BoardColumn, index: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (draggedId === null) return;
+    commit(draggedId, moveCard(layout, draggedId, column, index));
+    setDraggedId(null);
+  };
+
+  return (
+    <>
+      <p id={instructionsId} className="sr-only">
+        Press Space or Enter to pick up a card, use the arrow keys to move it between and within columns, then press
+        Space or Enter to drop it, or Escape to cancel.
+      </p>
+      <p aria-live="assertive" className="sr-only">
+        {announcement}
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {BOARD_COLUMNS.map(({ value: column, label }) => (
+          <section
+            key={column}
+            aria-label={label}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => handleDrop(e, column, shownLayout[column].length)}
+            className="flex flex-col rounded-lg bg-gray-100 p-4 min-h-48"
+          >
+            <h2 className="mb-4 flex justify-between font-bold text-gray-900">
+              {label}
+              <span className="text-sm font-normal text-gray-500">{shownLayout[column].length}</span>
+            </h2>
+            <ul className="flex flex-col gap-3">
+              {shownLayout[column].map((id, index) => {
+                const todo = todoById.get(id);
+                // The list may refetch while a card is picked up
+                if (!todo) return null;
+                const isGrabbed = grabbed?.id === id;
+                return (
+                  <li
+                    key={id}
+                    draggable={!isPending(id)}
+                    aria-busy={isPending(id)}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = "move";
+                      setDraggedId(id);
+                    }}
+                    onDragEnd={() => setDraggedId(null)}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={(e) => handleDrop(e, column, index)}
+                    className={`flex items-start gap-2 rounded-lg bg-white p-3 shadow-sm transition-all ${
+                      isGrabbed ? "ring-2 ring-blue-500 shadow-lg" : ""
+                    } ${draggedId === id || isPending(id) ? "opacity-50" : ""}`}
+                  >
+                    <button
+                      type="button"
+                      ref={(element) => {
+                        if (element) {
+                          handleRefs.current.set(id, element);
+                        } else {
+                          handleRefs.current.delete(id);
+                        }
+                      }}
+                      disabled={isPending(id)}
+                      aria-pressed={isGrabbed}
+                      aria-describedby={instructionsId}
+                      onKeyDown={(e) => handleKeyDown(e, todo)}
+                      // Moving to another column re-creates the button, which blurs it
+                      // with no relatedTarget; only leaving for another element cancels
+                      onBlur={(e) => {
+                        if (isGrabbed && e.relatedTarget !== null) setGrabbed(null);
+                      }}
+                      className="cursor-grab rounded-md p-1 text-gray-400 hover:text-gray-600"
+                    >
+                      <span className="sr-only">Move "{todo.todo}"</span>
+                      <Bars3Icon aria-hidden="true" className="size-4" />
+                    </button>
+                    <p className={`text-sm text-gray-700 ${todo.completed ? "line-through" : ""}`}>{todo.todo}</p>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        ))}
+      </div>
+    </>
+  );
+};
+
+export default TodoBoard;
@@ -0,0 +1,45 @@
+import { useEffect, useState } from "react";
+import useTodoMeta from "../hooks/useTodoMeta";
+import { notify } from "../utils/notify";
+
+// setTimeout overflows past ~24.8 days, so long waits are re-checked daily
+const MAX_WAIT = 24 * 60 * 60 * 1000;
+
+// Fires todo reminders while the app is open: as a toast and, when the user
+// allowed it, as a system notification. Renders nothing.
+const TodoReminders = () => {
+  const { todoMeta, updateTodoMeta } = useTodoMeta();
+  // Bumped by the timer to check again
+  const [check, setCheck] = useState<number>(0);
+
+  useEffect(() => {
+    const now = Date.now();
+    const pending = Object.entries(todoMeta).flatMap(([id, meta]) =>
+      meta.reminder && !meta.reminder.fired ? [{ id: Number(id), reminder: meta.reminder }] : []
+    );
+    const due = pending.filter(({ reminder }) => new Date(reminder.at).getTime() <= now);
+
+    if (due.length > 0) {
+      due.forEach(({ id, reminder }) => {
+        notify({ kind: "reminder", title: "Reminder", message: reminder.title, duration: 10000 });
+        if ("Notification" in window && Notification.permission === "granted") {
+          new Notification("Todo reminder", { body: reminder.title, tag: `todo-${id}` });
+        }
+      });
+      // Marking them fired re-runs this effect for the next one
+      updateTodoMeta(
+        Object.fromEntries(due.map(({ id, reminder }) => [id, { reminder: { ...reminder, fired: true } }]))
+      );
+      return;
+    }
+
+    const next = Math.min(...pending.map(({ reminder }) => new Date(reminder.at).getTime()));
+    if (!Number.isFinite(next)) return;
+    const timeout = setTimeout(() => setCheck((current) => current + 1), Math.min(next - now, MAX_WAIT));
+    return () => clearTimeout(timeout);
+  }, [todoMeta, updateTodoMeta, check]);
+
+  return null;
+};
+
+export default TodoReminders;
@@ -0,0 +1,33 @@
+export type TodoView = "grid" | "board";
+
+interface TodoViewToggleProps {
+  view: TodoView;
+  onChange: (view: TodoView) => void;
+}
+
+const views: { value: TodoView; label: string }[] = [
+  { value: "grid", label: "Grid" },
+  { value: "board", label: "Board" },
+];
+
+const TodoViewToggle = ({ view, onChange }: TodoViewToggleProps) => {
+  return (
+    <div role="group" aria-label="View" className="inline-flex rounded-md shadow-xs">
+      {views.map((option, index) => (
+        <button
+          key={option.value}
+          type="button"
+          aria-pressed={view === option.value}
+          onClick={() => onChange(option.value)}
+          className={`px-3 py-2 text-sm ring-1 ring-gray-300 ${index === 0 ? "rounded-l-md" : "-ml-px rounded-r-md"} ${
+            view === option.value ? "bg-blue-500 text-white ring-blue-500" : "bg-white text-gray-700 hover:bg-gray-50"
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default TodoViewToggle;
@@ -0,0 +1,31 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import { fetchUserSummary } from "../api/users";
+
+// Shows who owns a post, todo or cart and links to their user page
+const UserLink = ({ userId }: { userId: number }) => {
+  const { data: user, isLoading } = useQuery({
+    queryKey: ["userSummary", userId],
+    queryFn: () => fetchUserSummary(userId),
+    staleTime: Infinity,
+  });
+
+  return (
+    <Link
+      to={`/users/${userId}`}
+      onClick={(e) => e.stopPropagation()}
+      className="inline-flex items-center gap-2 text-sm text-gray-700 hover:text-blue-600 hover:underline"
+    >
+      {isLoading || !user ? (
+        <span className="text-gray-500">User #{userId}</span>
+      ) : (
+        <>
+          <img src={user.image} alt="" className="size-6 rounded-full bg-gray-200" />
+          {user.firstName} {user.lastName}
+        </>
+      )}
+    </Link>
+  );
+};
+
+export default UserLink;
@@ -0,0 +1,12 @@
+import { createContext } from "react";
+import type { AuthUser, Credentials } from "../api/auth";
+
+export interface AuthContextValue {
+  user: AuthUser | null;
+  isAuthenticated: boolean;
+  isLoading: boolean;
+  login: (credentials: Credentials) => Promise<AuthUser>;
+  logout: () => void;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
@@ -0,0 +1,53 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useMemo, useState } from "react";
+import { fetchCurrentUser, login, type AuthUser, type Credentials } from "../api/auth";
+import { clearTokens, getAccessToken, onSessionExpired, setTokens } from "../utils/authStorage";
+import { AuthContext } from "./AuthContext";
+
+const AuthProvider = ({ children }: { children: React.ReactNode }) => {
+  const queryClient = useQueryClient();
+  const [hasSession, setHasSession] = useState(() => getAccessToken() !== null);
+
+  // Restores the signed-in user from a stored token after a reload
+  const { data: user, isLoading } = useQuery({
+    queryKey: ["authUser"],
+    queryFn: fetchCurrentUser,
+    enabled: hasSession,
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  useEffect(
+    () =>
+      onSessionExpired(() => {
+        setHasSession(false);
+        queryClient.removeQueries({ queryKey: ["authUser"] });
+      }),
+    [queryClient]
+  );
+
+  const value = useMemo(
+    () => ({
+      user: hasSession ? user ?? null : null,
+      isAuthenticated: hasSession && user !== undefined,
+      isLoading: hasSession && isLoading,
+      login: async (credentials: Credentials) => {
+        const { accessToken, refreshToken, ...authUser } = await login(credentials);
+        setTokens({ accessToken, refreshToken });
+        queryClient.setQueryData<AuthUser>(["authUser"], authUser);
+        setHasSession(true);
+        return authUser;
+      },
+      logout: () => {
+        clearTokens();
+        setHasSession(false);
+        queryClient.removeQueries({ queryKey: ["authUser"] });
+      },
+    }),
+    [hasSession, user, isLoading, queryClient]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export default AuthProvider;
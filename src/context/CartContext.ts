@@ -0,0 +1,30 @@
+import { createContext } from "react";
+
+// Minimal product fields the local cart needs to price and validate a line
+export interface CartableProduct {
+  id: number;
+  title: string;
+  price: number;
+  discountPercentage: number;
+  thumbnail: string;
+  stock: number;
+  minimumOrderQuantity: number;
+}
+
+export interface LocalCartItem extends CartableProduct {
+  quantity: number;
+}
+
+export interface CartContextValue {
+  items: LocalCartItem[];
+  totalQuantity: number;
+  subtotal: number;
+  discount: number;
+  total: number;
+  addItem: (product: CartableProduct, quantity?: number) => void;
+  updateQuantity: (id: number, quantity: number) => void;
+  removeItem: (id: number) => void;
+  clearCart: () => void;
+}
+
+export const CartContext = createContext<CartContextValue | null>(null);
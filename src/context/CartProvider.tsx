@@ -0,0 +1,70 @@
+import { useEffect, useMemo, useState } from "react";
+import { CartContext, type CartableProduct, type LocalCartItem } from "./CartContext";
+
+const STORAGE_KEY = "cart";
+
+const loadCart = (): LocalCartItem[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Keep a line between the product's minimum order quantity and its stock
+const clampQuantity = (product: CartableProduct, quantity: number) =>
+  Math.min(product.stock, Math.max(product.minimumOrderQuantity, quantity));
+
+const CartProvider = ({ children }: { children: React.ReactNode }) => {
+  const [items, setItems] = useState<LocalCartItem[]>(loadCart);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  }, [items]);
+
+  const value = useMemo(() => {
+    const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+    const discount = items.reduce(
+      (sum, item) => sum + (item.price * item.quantity * item.discountPercentage) / 100,
+      0
+    );
+
+    return {
+      items,
+      totalQuantity: items.reduce((sum, item) => sum + item.quantity, 0),
+      subtotal,
+      discount,
+      total: subtotal - discount,
+      addItem: (product: CartableProduct, quantity = product.minimumOrderQuantity) => {
+        if (product.stock < product.minimumOrderQuantity) return;
+        setItems((current) => {
+          const existing = current.find((item) => item.id === product.id);
+          if (existing) {
+            return current.map((item) =>
+              item.id === product.id
+                ? { ...item, quantity: clampQuantity(product, item.quantity + quantity) }
+                : item
+            );
+          }
+          return [...current, { ...product, quantity: clampQuantity(product, quantity) }];
+        });
+      },
+      updateQuantity: (id: number, quantity: number) => {
+        setItems((current) =>
+          current.map((item) =>
+            item.id === id ? { ...item, quantity: clampQuantity(item, quantity) } : item
+          )
+        );
+      },
+      removeItem: (id: number) => {
+        setItems((current) => current.filter((item) => item.id !== id));
+      },
+      clearCart: () => setItems([]),
+    };
+  }, [items]);
+
+  return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
+};
+
+export default CartProvider;
@@ -0,0 +1,33 @@
+import { createContext } from "react";
+import type { Recipe } from "../api/recipes";
+
+export const MEAL_DAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"] as const;
+export const MEAL_SLOTS = ["Breakfast", "Lunch", "Dinner"] as const;
+
+export type MealDay = (typeof MEAL_DAYS)[number];
+export type MealSlot = (typeof MEAL_SLOTS)[number];
+
+// Recipe fields the plan keeps, so the shopping list works without refetching
+export type PlannableRecipe = Pick<Recipe, "id" | "name" | "image" | "ingredients" | "servings">;
+
+export interface PlannedMeal {
+  id: string;
+  day: MealDay;
+  slot: MealSlot;
+  recipe: PlannableRecipe;
+  servings: number;
+}
+
+export interface MealPlanContextValue {
+  meals: PlannedMeal[];
+  addMeal: (recipe: PlannableRecipe, day: MealDay, slot: MealSlot, servings?: number) => void;
+  updateServings: (id: string, servings: number) => void;
+  removeMeal: (id: string) => void;
+  clearPlan: () => void;
+  // Shopping list items ticked off, by their aggregated key
+  checkedItems: string[];
+  toggleItem: (key: string) => void;
+  clearChecked: () => void;
+}
+
+export const MealPlanContext = createContext<MealPlanContextValue | null>(null);
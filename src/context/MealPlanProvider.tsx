@@ -0,0 +1,70 @@
+import { useEffect, useMemo, useState } from "react";
+import { MealPlanContext, type PlannableRecipe, type PlannedMeal } from "./MealPlanContext";
+
+const MEALS_KEY = "mealPlan";
+const CHECKED_KEY = "shoppingListChecked";
+
+const load = <T,>(key: string): T[] => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+const MealPlanProvider = ({ children }: { children: React.ReactNode }) => {
+  const [meals, setMeals] = useState<PlannedMeal[]>(() => load(MEALS_KEY));
+  const [checkedItems, setCheckedItems] = useState<string[]>(() => load(CHECKED_KEY));
+
+  useEffect(() => {
+    localStorage.setItem(MEALS_KEY, JSON.stringify(meals));
+  }, [meals]);
+
+  useEffect(() => {
+    localStorage.setItem(CHECKED_KEY, JSON.stringify(checkedItems));
+  }, [checkedItems]);
+
+  const value = useMemo(
+    () => ({
+      meals,
+      addMeal: (recipe: PlannableRecipe, day: PlannedMeal["day"], slot: PlannedMeal["slot"], servings = recipe.servings) => {
+        const { id, name, image, ingredients } = recipe;
+        setMeals((current) => [
+          ...current,
+          {
+            id: crypto.randomUUID(),
+            day,
+            slot,
+            recipe: { id, name, image, ingredients, servings: recipe.servings },
+            servings,
+          },
+        ]);
+      },
+      updateServings: (id: string, servings: number) => {
+        setMeals((current) =>
+          current.map((meal) => (meal.id === id ? { ...meal, servings: Math.max(1, servings) } : meal))
+        );
+      },
+      removeMeal: (id: string) => {
+        setMeals((current) => current.filter((meal) => meal.id !== id));
+      },
+      clearPlan: () => {
+        setMeals([]);
+        setCheckedItems([]);
+      },
+      checkedItems,
+      toggleItem: (key: string) => {
+        setCheckedItems((current) =>
+          current.includes(key) ? current.filter((item) => item !== key) : [...current, key]
+        );
+      },
+      clearChecked: () => setCheckedItems([]),
+    }),
+    [meals, checkedItems]
+  );
+
+  return <MealPlanContext.Provider value={value}>{children}</MealPlanContext.Provider>;
+};
+
+export default MealPlanProvider;
@@ -0,0 +1,19 @@
+import { createContext } from "react";
+import type { NotificationInput } from "../utils/notify";
+
+export interface AppNotification extends NotificationInput {
+  id: string;
+  createdAt: string;
+  read: boolean;
+}
+
+export interface NotificationsContextValue {
+  notifications: AppNotification[];
+  toasts: AppNotification[];
+  unreadCount: number;
+  dismissToast: (id: string) => void;
+  markAllRead: () => void;
+  clearNotifications: () => void;
+}
+
+export const NotificationsContext = createContext<NotificationsContextValue | null>(null);
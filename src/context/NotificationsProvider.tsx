@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { onNotify } from "../utils/notify";
+import { NotificationsContext, type AppNotification } from "./NotificationsContext";
+
+const STORAGE_KEY = "notifications";
+const HISTORY_LIMIT = 50;
+const TOAST_DURATION = 5000;
+
+const loadNotifications = (): AppNotification[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+const NotificationsProvider = ({ children }: { children: React.ReactNode }) => {
+  const [notifications, setNotifications] = useState<AppNotification[]>(loadNotifications);
+  const [toasts, setToasts] = useState<AppNotification[]>([]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(notifications));
+  }, [notifications]);
+
+  const dismissToast = useCallback((id: string) => {
+    setToasts((current) => current.filter((toast) => toast.id !== id));
+  }, []);
+
+  // Every notification is shown as a toast and, unless it carries an action
+  // that would be stale later, kept in the bell's history
+  useEffect(
+    () =>
+      onNotify(({ duration = TOAST_DURATION, ...input }) => {
+        const notification: AppNotification = {
+          ...input,
+          id: crypto.randomUUID(),
+          createdAt: new Date().toISOString(),
+          read: false,
+        };
+        if (!notification.action) {
+          setNotifications((current) => [notification, ...current].slice(0, HISTORY_LIMIT));
+        }
+        setToasts((current) => [...current, notification]);
+        setTimeout(() => dismissToast(notification.id), duration);
+      }),
+    [dismissToast]
+  );
+
+  const value = useMemo(
+    () => ({
+      notifications,
+      toasts,
+      unreadCount: notifications.filter((notification) => !notification.read).length,
+      dismissToast,
+      markAllRead: () =>
+        setNotifications((current) =>
+          current.some((notification) => !notification.read)
+            ? current.map((notification) => ({ ...notification, read: true }))
+            : current
+        ),
+      clearNotifications: () => setNotifications([]),
+    }),
+    [notifications, toasts, dismissToast]
+  );
+
+  return <NotificationsContext.Provider value={value}>{children}</NotificationsContext.Provider>;
+};
+
+export default NotificationsProvider;
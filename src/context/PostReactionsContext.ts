@@ -0,0 +1,11 @@
+import { createContext } from "react";
+
+export type PostReaction = "like" | "dislike";
+
+export interface PostReactionsContextValue {
+  // This browser's own reaction to each post, by post id
+  postReactions: Record<number, PostReaction>;
+  setPostReaction: (postId: number, reaction: PostReaction | null) => void;
+}
+
+export const PostReactionsContext = createContext<PostReactionsContextValue | null>(null);
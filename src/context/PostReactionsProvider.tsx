@@ -0,0 +1,43 @@
+import { useEffect, useMemo, useState } from "react";
+import { PostReactionsContext, type PostReaction } from "./PostReactionsContext";
+
+const STORAGE_KEY = "postReactions";
+
+const loadPostReactions = (): Record<number, PostReaction> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+const PostReactionsProvider = ({ children }: { children: React.ReactNode }) => {
+  const [postReactions, setPostReactions] = useState<Record<number, PostReaction>>(loadPostReactions);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(postReactions));
+  }, [postReactions]);
+
+  const value = useMemo(
+    () => ({
+      postReactions,
+      setPostReaction: (postId: number, reaction: PostReaction | null) => {
+        setPostReactions((current) => {
+          const next = { ...current };
+          if (reaction) {
+            next[postId] = reaction;
+          } else {
+            delete next[postId];
+          }
+          return next;
+        });
+      },
+    }),
+    [postReactions]
+  );
+
+  return <PostReactionsContext.Provider value={value}>{children}</PostReactionsContext.Provider>;
+};
+
+export default PostReactionsProvider;
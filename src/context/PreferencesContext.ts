@@ -0,0 +1,29 @@
+import { createContext } from "react";
+
+export type Theme = "light" | "dark" | "system";
+
+export interface Preferences {
+  pageSize: number;
+  // Product sort as "field:order", see productSortOptions
+  defaultSort: string;
+  theme: Theme;
+  // Comments containing any of these are flagged for moderation
+  moderationWords: string[];
+}
+
+export const PAGE_SIZE_OPTIONS = [12, 24, 48, 96];
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  pageSize: 24,
+  defaultSort: "",
+  theme: "system",
+  moderationWords: ["spam", "scam", "idiot", "stupid", "hate"],
+};
+
+export interface PreferencesContextValue {
+  preferences: Preferences;
+  updatePreferences: (changes: Partial<Preferences>) => void;
+  resetPreferences: () => void;
+}
+
+export const PreferencesContext = createContext<PreferencesContextValue | null>(null);
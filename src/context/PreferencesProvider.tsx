@@ -0,0 +1,49 @@
+import { useEffect, useMemo, useState } from "react";
+import { DEFAULT_PREFERENCES, PreferencesContext, type Preferences } from "./PreferencesContext";
+
+const STORAGE_KEY = "preferences";
+
+const loadPreferences = (): Preferences => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_PREFERENCES, ...JSON.parse(stored) } : DEFAULT_PREFERENCES;
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+const PreferencesProvider = ({ children }: { children: React.ReactNode }) => {
+  const [preferences, setPreferences] = useState<Preferences>(loadPreferences);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  }, [preferences]);
+
+  // Tailwind's dark variant is class based (see index.css), so the theme is
+  // applied by toggling `dark` on <html>, following the OS when set to system
+  useEffect(() => {
+    const media = window.matchMedia("(prefers-color-scheme: dark)");
+    const applyTheme = () => {
+      const dark = preferences.theme === "dark" || (preferences.theme === "system" && media.matches);
+      document.documentElement.classList.toggle("dark", dark);
+    };
+
+    applyTheme();
+    media.addEventListener("change", applyTheme);
+    return () => media.removeEventListener("change", applyTheme);
+  }, [preferences.theme]);
+
+  const value = useMemo(
+    () => ({
+      preferences,
+      updatePreferences: (changes: Partial<Preferences>) =>
+        setPreferences((current) => ({ ...current, ...changes })),
+      resetPreferences: () => setPreferences(DEFAULT_PREFERENCES),
+    }),
+    [preferences]
+  );
+
+  return <PreferencesContext.Provider value={value}>{children}</PreferencesContext.Provider>;
+};
+
+export default PreferencesProvider;
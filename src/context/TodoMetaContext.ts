@@ -0,0 +1,43 @@
+import { createContext } from "react";
+
+export const BOARD_COLUMNS = [
+  { value: "backlog", label: "Backlog" },
+  { value: "inProgress", label: "In Progress" },
+  { value: "done", label: "Done" },
+] as const;
+
+export type BoardColumn = (typeof BOARD_COLUMNS)[number]["value"];
+
+export const TODO_PRIORITIES = [
+  { value: "high", label: "High" },
+  { value: "medium", label: "Medium" },
+  { value: "low", label: "Low" },
+] as const;
+
+export type TodoPriority = (typeof TODO_PRIORITIES)[number]["value"];
+
+export interface TodoReminder {
+  // ISO date and time
+  at: string;
+  // The todo's text when the reminder was set, so it can fire on any page
+  title: string;
+  fired?: boolean;
+}
+
+// Details DummyJSON's todos don't have, kept in the browser by todo id
+export interface TodoMeta {
+  column?: BoardColumn;
+  // Position within the column on the board
+  order?: number;
+  // Local calendar date, YYYY-MM-DD
+  dueDate?: string;
+  priority?: TodoPriority;
+  reminder?: TodoReminder;
+}
+
+export interface TodoMetaContextValue {
+  todoMeta: Record<number, TodoMeta>;
+  updateTodoMeta: (updates: Record<number, Partial<TodoMeta>>) => void;
+}
+
+export const TodoMetaContext = createContext<TodoMetaContextValue | null>(null);
@@ -0,0 +1,41 @@
+import { useEffect, useMemo, useState } from "react";
+import { TodoMetaContext, type TodoMeta } from "./TodoMetaContext";
+
+const STORAGE_KEY = "todoMeta";
+
+const loadTodoMeta = (): Record<number, TodoMeta> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+const TodoMetaProvider = ({ children }: { children: React.ReactNode }) => {
+  const [todoMeta, setTodoMeta] = useState<Record<number, TodoMeta>>(loadTodoMeta);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(todoMeta));
+  }, [todoMeta]);
+
+  const value = useMemo(
+    () => ({
+      todoMeta,
+      updateTodoMeta: (updates: Record<number, Partial<TodoMeta>>) => {
+        setTodoMeta((current) => {
+          const next = { ...current };
+          Object.entries(updates).forEach(([id, changes]) => {
+            next[Number(id)] = { ...next[Number(id)], ...changes };
+          });
+          return next;
+        });
+      },
+    }),
+    [todoMeta]
+  );
+
+  return <TodoMetaContext.Provider value={value}>{children}</TodoMetaContext.Provider>;
+};
+
+export default TodoMetaProvider;
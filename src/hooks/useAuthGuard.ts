@@ -0,0 +1,21 @@
+import { useLocation, useNavigate } from "react-router-dom";
+import type { AuthUser } from "../api/auth";
+import useAuth from "./useAuth";
+
+// Wraps a mutating action so signed-out users are sent to the login page
+// first, and brought back to the current page afterwards
+const useAuthGuard = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  return (action: (user: AuthUser) => void) => {
+    if (user) {
+      action(user);
+    } else {
+      navigate("/login", { state: { from: location } });
+    }
+  };
+};
+
+export default useAuthGuard;
@@ -0,0 +1,12 @@
+import { useContext } from "react";
+import { MealPlanContext } from "../context/MealPlanContext";
+
+const useMealPlan = () => {
+  const mealPlan = useContext(MealPlanContext);
+  if (!mealPlan) {
+    throw new Error("useMealPlan must be used within a MealPlanProvider");
+  }
+  return mealPlan;
+};
+
+export default useMealPlan;
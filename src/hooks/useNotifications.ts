@@ -0,0 +1,12 @@
+import { useContext } from "react";
+import { NotificationsContext } from "../context/NotificationsContext";
+
+const useNotifications = () => {
+  const notifications = useContext(NotificationsContext);
+  if (!notifications) {
+    throw new Error("useNotifications must be used within a NotificationsProvider");
+  }
+  return notifications;
+};
+
+export default useNotifications;
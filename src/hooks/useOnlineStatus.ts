@@ -0,0 +1,12 @@
+import { onlineManager } from "@tanstack/react-query";
+import { useSyncExternalStore } from "react";
+
+// Follows React Query's own idea of being online, which is what decides
+// whether mutations run or wait in the queue
+const useOnlineStatus = () =>
+  useSyncExternalStore(
+    (listener) => onlineManager.subscribe(listener),
+    () => onlineManager.isOnline()
+  );
+
+export default useOnlineStatus;
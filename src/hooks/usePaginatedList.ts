@@ -0,0 +1,102 @@
+import { keepPreviousData, useInfiniteQuery, useQuery, type QueryKey } from "@tanstack/react-query";
+import { useSearchParams } from "react-router-dom";
+import type { ListParams, ListResponse } from "../api/types";
+import usePreferences from "./usePreferences";
+
+export type ListMode = "pages" | "infinite";
+
+interface PaginatedListOptions<K extends string, T> {
+  queryKey: QueryKey;
+  listKey: K;
+  fetchPage: (params: ListParams) => Promise<ListResponse<K, T>>;
+  pageSize?: number;
+}
+
+// Loads a DummyJSON list either one page at a time or as an infinite list.
+// The current page and mode live in the URL (?page=2, ?mode=infinite) so
+// they survive reloads and can be shared. The page size defaults to the
+// user's preference from Settings.
+const usePaginatedList = <K extends string, T>({
+  queryKey,
+  listKey,
+  fetchPage,
+  pageSize: pageSizeOption,
+}: PaginatedListOptions<K, T>) => {
+  const { preferences } = usePreferences();
+  const pageSize = pageSizeOption ?? preferences.pageSize;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const mode: ListMode = searchParams.get("mode") === "infinite" ? "infinite" : "pages";
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
+  const skip = (page - 1) * pageSize;
+
+  const pagedQuery = useQuery({
+    queryKey: [...queryKey, "page", { limit: pageSize, skip }],
+    queryFn: () => fetchPage({ limit: pageSize, skip }),
+    enabled: mode === "pages",
+    placeholderData: keepPreviousData,
+  });
+
+  const infiniteQuery = useInfiniteQuery({
+    queryKey: [...queryKey, "infinite", { limit: pageSize }],
+    queryFn: ({ pageParam }) => fetchPage({ limit: pageSize, skip: pageParam }),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => {
+      const next = lastPage.skip + pageSize;
+      return next < lastPage.total ? next : undefined;
+    },
+    enabled: mode === "infinite",
+  });
+
+  const items: T[] =
+    mode === "pages"
+      ? pagedQuery.data?.[listKey] ?? []
+      : infiniteQuery.data?.pages.flatMap((p) => p[listKey]) ?? [];
+  const total = (mode === "pages" ? pagedQuery.data : infiniteQuery.data?.pages[0])?.total ?? 0;
+
+  const setPage = (nextPage: number) => {
+    setSearchParams((params) => {
+      if (nextPage > 1) {
+        params.set("page", String(nextPage));
+      } else {
+        params.delete("page");
+      }
+      return params;
+    });
+  };
+
+  const setMode = (nextMode: ListMode) => {
+    setSearchParams((params) => {
+      params.delete("page");
+      if (nextMode === "infinite") {
+        params.set("mode", nextMode);
+      } else {
+        params.delete("mode");
+      }
+      return params;
+    });
+  };
+
+  const activeQuery = mode === "pages" ? pagedQuery : infiniteQuery;
+
+  return {
+    items,
+    total,
+    page,
+    pageSize,
+    pageCount: Math.max(1, Math.ceil(total / pageSize)),
+    setPage,
+    mode,
+    setMode,
+    isLoading: activeQuery.isLoading,
+    isFetching: activeQuery.isFetching,
+    isPageLoading: mode === "pages" && pagedQuery.isPlaceholderData,
+    isError: activeQuery.isError,
+    error: activeQuery.error,
+    refetch: activeQuery.refetch,
+    hasNextPage: infiniteQuery.hasNextPage,
+    fetchNextPage: infiniteQuery.fetchNextPage,
+    isFetchingNextPage: infiniteQuery.isFetchingNextPage,
+  };
+};
+
+export default usePaginatedList;
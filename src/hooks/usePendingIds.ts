@@ -0,0 +1,20 @@
+import { useMutationState, type MutationKey } from "@tanstack/react-query";
+import { isOptimisticId } from "../utils/optimisticList";
+
+// Ids of the items that in-flight mutations under `mutationKey` are working
+// on, taken from the mutation variables (an item being saved, or an id being
+// deleted). Optimistically added items count as pending until they're saved.
+const usePendingIds = (mutationKey: MutationKey) => {
+  const variables = useMutationState({
+    filters: { mutationKey, status: "pending" },
+    select: (mutation) => mutation.state.variables,
+  });
+
+  const ids = new Set(
+    variables.map((value) => (typeof value === "number" ? value : (value as { id?: number } | undefined)?.id))
+  );
+
+  return (id: number) => isOptimisticId(id) || ids.has(id);
+};
+
+export default usePendingIds;
@@ -0,0 +1,12 @@
+import { useContext } from "react";
+import { PostReactionsContext } from "../context/PostReactionsContext";
+
+const usePostReactions = () => {
+  const postReactions = useContext(PostReactionsContext);
+  if (!postReactions) {
+    throw new Error("usePostReactions must be used within a PostReactionsProvider");
+  }
+  return postReactions;
+};
+
+export default usePostReactions;
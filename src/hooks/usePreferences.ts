@@ -0,0 +1,12 @@
+import { useContext } from "react";
+import { PreferencesContext } from "../context/PreferencesContext";
+
+const usePreferences = () => {
+  const preferences = useContext(PreferencesContext);
+  if (!preferences) {
+    throw new Error("usePreferences must be used within a PreferencesProvider");
+  }
+  return preferences;
+};
+
+export default usePreferences;
@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from "react";
+import {
+  getScheduledDeletes,
+  scheduledDeleteKey,
+  subscribeScheduledDeletes,
+} from "../utils/scheduledDeletes";
+
+// Tells whether an item in `scope` is waiting out its undo window and
+// should be hidden from lists
+const useScheduledDeletes = (scope: string) => {
+  const scheduled = useSyncExternalStore(subscribeScheduledDeletes, getScheduledDeletes);
+  return (id: number) => scheduled.has(scheduledDeleteKey(scope, id));
+};
+
+export default useScheduledDeletes;
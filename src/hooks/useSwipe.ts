@@ -0,0 +1,32 @@
+import { useRef } from "react";
+
+// Horizontal distance, in pixels, a touch has to travel to count as a swipe
+const SWIPE_THRESHOLD = 50;
+
+// Touch handlers that call onPrevious/onNext for right/left swipes, ignoring
+// mostly vertical drags so the page can still scroll
+const useSwipe = ({ onPrevious, onNext }: { onPrevious: () => void; onNext: () => void }) => {
+  const start = useRef<{ x: number; y: number } | null>(null);
+
+  return {
+    onTouchStart: (e: React.TouchEvent) => {
+      const touch = e.touches[0];
+      start.current = { x: touch.clientX, y: touch.clientY };
+    },
+    onTouchEnd: (e: React.TouchEvent) => {
+      if (!start.current) return;
+      const touch = e.changedTouches[0];
+      const dx = touch.clientX - start.current.x;
+      const dy = touch.clientY - start.current.y;
+      start.current = null;
+      if (Math.abs(dx) < SWIPE_THRESHOLD || Math.abs(dx) < Math.abs(dy)) return;
+      if (dx > 0) {
+        onPrevious();
+      } else {
+        onNext();
+      }
+    },
+  };
+};
+
+export default useSwipe;
@@ -0,0 +1,12 @@
+import { useContext } from "react";
+import { TodoMetaContext } from "../context/TodoMetaContext";
+
+const useTodoMeta = () => {
+  const todoMeta = useContext(TodoMetaContext);
+  if (!todoMeta) {
+    throw new Error("useTodoMeta must be used within a TodoMetaProvider");
+  }
+  return todoMeta;
+};
+
+export default useTodoMeta;
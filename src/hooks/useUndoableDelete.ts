@@ -0,0 +1,65 @@
+import { notify } from "../utils/notify";
+import {
+  cancelScheduledDelete,
+  cancelScheduledDeletes,
+  scheduleDelete,
+  scheduleDeletes,
+  scheduledDeleteKey,
+} from "../utils/scheduledDeletes";
+import useScheduledDeletes from "./useScheduledDeletes";
+
+const UNDO_DELAY = 5000;
+
+interface UndoableDeleteOptions {
+  // Groups ids that belong together, e.g. "recipes"
+  scope: string;
+  // Shown in the undo toast, e.g. "Recipe"
+  label: string;
+  // Plural for bulk deletes, e.g. "todos"; defaults to the label plus "s"
+  pluralLabel?: string;
+  onDelete: (id: number) => Promise<unknown>;
+  // Deletes several items at once; defaults to onDelete for each of them
+  onDeleteMany?: (ids: number[]) => Promise<unknown>;
+}
+
+// Soft delete: the item is hidden straight away and an Undo toast is shown;
+// the real DELETE only goes out once the toast's undo window has passed
+const useUndoableDelete = ({
+  scope,
+  label,
+  pluralLabel = `${label.toLowerCase()}s`,
+  onDelete,
+  onDeleteMany = (ids) => Promise.all(ids.map(onDelete)),
+}: UndoableDeleteOptions) => {
+  const isScheduled = useScheduledDeletes(scope);
+
+  return {
+    isScheduled,
+    scheduleDelete: (id: number) => {
+      const key = scheduledDeleteKey(scope, id);
+      if (!scheduleDelete(key, UNDO_DELAY, () => onDelete(id))) return;
+
+      notify({
+        kind: "success",
+        title: `${label} will be deleted`,
+        duration: UNDO_DELAY,
+        action: { label: "Undo", onClick: () => cancelScheduledDelete(key) },
+      });
+    },
+    // One undo toast for the whole batch
+    scheduleDeleteMany: (ids: number[]) => {
+      const pendingIds = ids.filter((id) => !isScheduled(id));
+      const keys = pendingIds.map((id) => scheduledDeleteKey(scope, id));
+      if (scheduleDeletes(keys, UNDO_DELAY, () => onDeleteMany(pendingIds)).length === 0) return;
+
+      notify({
+        kind: "success",
+        title: `${pendingIds.length} ${pendingIds.length === 1 ? label.toLowerCase() : pluralLabel} will be deleted`,
+        duration: UNDO_DELAY,
+        action: { label: "Undo", onClick: () => cancelScheduledDeletes(keys) },
+      });
+    },
+  };
+};
+
+export default useUndoableDelete;
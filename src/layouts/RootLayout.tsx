@@ -1,11 +1,17 @@
 import { Outlet } from 'react-router-dom'
 import Navbar from '../components/Navbar'
+import OfflineBanner from '../components/OfflineBanner'
+import Toaster from '../components/Toaster'
+import TodoReminders from '../components/TodoReminders'
 
 const RootLayout = () => {
   return (
-    <div>
+    <div className="min-h-screen bg-white dark:bg-gray-900">
       <Navbar/>
+      <OfflineBanner/>
       <Outlet/>
+      <Toaster/>
+      <TodoReminders/>
     </div>
   )
 }
@@ -0,0 +1,231 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import UserLink from "../components/UserLink";
+import QueryError from "../components/QueryError";
+import {
+  deleteCart,
+  fetchCart,
+  updateCart,
+  type Cart,
+  type CartLine,
+  type CartUpdate,
+} from "../api/carts";
+import { removeListItem, replaceListItem } from "../utils/listCache";
+
+const CartDetail = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [editLines, setEditLines] = useState<CartLine[] | null>(null);
+  const [merge, setMerge] = useState<boolean>(false);
+
+  const { data: cart, isLoading, isError, error, refetch, isFetching } = useQuery({
+    queryKey: ["cartDetail", id],
+    queryFn: () => fetchCart(id!),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (update: CartUpdate) => updateCart(id!, update),
+    meta: { successMessage: "Cart updated", errorMessage: "Couldn't update cart" },
+    onSuccess: (updatedCart) => {
+      queryClient.setQueryData<Cart>(["cartDetail", id], updatedCart);
+      replaceListItem(queryClient, ["carts"], "carts", updatedCart);
+      setEditLines(null);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => deleteCart(id!),
+    meta: { successMessage: "Cart deleted", errorMessage: "Couldn't delete cart" },
+    onSuccess: () => {
+      removeListItem(queryClient, ["carts"], "carts", Number(id));
+      navigate("/carts", { replace: true });
+    },
+  });
+
+  const startEditing = () => {
+    if (!cart) return;
+    setMerge(false);
+    setEditLines(cart.products.map((product) => ({ id: product.id, quantity: product.quantity })));
+  };
+
+  const updateLine = (index: number, line: Partial<CartLine>) => {
+    setEditLines((lines) => lines && lines.map((l, i) => (i === index ? { ...l, ...line } : l)));
+  };
+
+  const handleUpdateCart = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editLines) {
+      updateMutation.mutate({
+        merge,
+        products: editLines.filter((line) => line.id > 0 && line.quantity > 0),
+      });
+    }
+  };
+
+  if (isError) {
+    return (
+      <QueryError
+        error={error}
+        resource="Cart"
+        onRetry={refetch}
+        isRetrying={isFetching}
+        backTo={{ to: "/carts", label: "Back to carts" }}
+      />
+    );
+  }
+
+  if (isLoading || cart == undefined) {
+    return <p className="text-center text-gray-500 p-6">Loading...</p>;
+  }
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-bold dark:text-white">Cart #{cart.id}</h1>
+        <UserLink userId={cart.userId} />
+      </div>
+
+      {/* Line Items */}
+      <div className="bg-white shadow-md rounded-lg overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-700">
+            <tr>
+              <th className="p-3">Product</th>
+              <th className="p-3 text-right">Price</th>
+              <th className="p-3 text-right">Quantity</th>
+              <th className="p-3 text-right">Total</th>
+              <th className="p-3 text-right">Discounted</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 text-gray-600">
+            {cart.products.map((product) => (
+              <tr key={product.id}>
+                <td className="p-3">
+                  <div className="flex items-center gap-3">
+                    <img src={product.thumbnail} alt={product.title} className="size-12 rounded-md bg-gray-200 object-cover" />
+                    <span className="font-medium text-gray-900">{product.title}</span>
+                  </div>
+                </td>
+                <td className="p-3 text-right">${product.price.toFixed(2)}</td>
+                <td className="p-3 text-right">{product.quantity}</td>
+                <td className="p-3 text-right">${product.total.toFixed(2)}</td>
+                <td className="p-3 text-right">
+                  ${product.discountedTotal.toFixed(2)}
+                  <span className="block text-xs text-green-600">
+                    {product.discountPercentage.toFixed(2)}% off
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Totals */}
+      <div className="mt-6 flex flex-col items-end gap-1">
+        <p className="text-gray-600">
+          {cart.totalProducts} products, {cart.totalQuantity} items
+        </p>
+        <p className="text-sm text-red-600 line-through">${cart.total.toFixed(2)}</p>
+        <p className="text-2xl font-bold text-gray-900">${cart.discountedTotal.toFixed(2)}</p>
+      </div>
+
+      <div className="flex mt-6 gap-2">
+        <button
+          className="bg-yellow-500 hover:bg-yellow-600 text-white px-4 py-2 rounded-lg transition-all"
+          onClick={startEditing}
+        >
+          Edit
+        </button>
+        <button
+          disabled={deleteMutation.isPending}
+          className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-red-300"
+          onClick={() => deleteMutation.mutate()}
+        >
+          {deleteMutation.isPending ? "Deleting..." : "Delete"}
+        </button>
+      </div>
+
+      {/* Edit Cart Modal */}
+      {editLines && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center">
+          <div className="bg-white p-6 rounded-lg shadow-lg w-[28rem] max-h-[90vh] overflow-y-auto">
+            <h3 className="text-xl font-bold mb-4">Edit Cart</h3>
+            <form onSubmit={handleUpdateCart} className="flex flex-col gap-4">
+              {editLines.map((line, index) => (
+                <div key={index} className="flex gap-2 items-end">
+                  <label className="flex flex-1 flex-col gap-1 text-sm text-gray-700">
+                    Product ID
+                    <input
+                      type="number"
+                      min={1}
+                      value={line.id}
+                      onChange={(e) => updateLine(index, { id: Number(e.target.value) })}
+                      className="border p-3 rounded-lg"
+                    />
+                  </label>
+                  <label className="flex flex-1 flex-col gap-1 text-sm text-gray-700">
+                    Quantity
+                    <input
+                      type="number"
+                      min={1}
+                      value={line.quantity}
+                      onChange={(e) => updateLine(index, { quantity: Number(e.target.value) })}
+                      className="border p-3 rounded-lg"
+                    />
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => setEditLines(editLines.filter((_, i) => i !== index))}
+                    className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-3 rounded-lg transition-all"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setEditLines([...editLines, { id: 1, quantity: 1 }])}
+                className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-all"
+              >
+                Add Product Line
+              </button>
+              <div className="flex items-center gap-2">
+                <input
+                  id="merge"
+                  type="checkbox"
+                  checked={merge}
+                  onChange={(e) => setMerge(e.target.checked)}
+                  className="w-5 h-5"
+                />
+                <label htmlFor="merge" className="text-sm text-gray-700">
+                  Merge with existing products instead of replacing them
+                </label>
+              </div>
+              <div className="flex justify-end gap-2">
+                <button
+                  type="submit"
+                  disabled={updateMutation.isPending}
+                  className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-blue-300"
+                >
+                  {updateMutation.isPending ? "Saving..." : "Save"}
+                </button>
+                <button
+                  type="button"
+                  className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-all"
+                  onClick={() => setEditLines(null)}
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CartDetail;
@@ -1,8 +1,202 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import UserLink from "../components/UserLink";
+import { createCart, deleteCart, fetchCarts, type CartLine } from "../api/carts";
+import usePaginatedList from "../hooks/usePaginatedList";
+import { addListItem, removeListItem } from "../utils/listCache";
+import Pagination from "../components/Pagination";
+import InfiniteScrollTrigger from "../components/InfiniteScrollTrigger";
+import ListModeToggle from "../components/ListModeToggle";
+import QueryError from "../components/QueryError";
+
+const emptyLine: CartLine = { id: 1, quantity: 1 };
 
 const Carts = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [userId, setUserId] = useState<number>(1);
+  const [lines, setLines] = useState<CartLine[]>([emptyLine]);
+
+  const cartList = usePaginatedList({
+    queryKey: ["carts"],
+    listKey: "carts",
+    fetchPage: fetchCarts,
+  });
+  const carts = cartList.items;
+
+  const createMutation = useMutation({
+    mutationFn: createCart,
+    meta: { successMessage: "Cart created", errorMessage: "Couldn't create cart" },
+    onSuccess: (data) => {
+      addListItem(queryClient, ["carts"], "carts", data);
+      setUserId(1);
+      setLines([emptyLine]);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => deleteCart(id),
+    meta: { successMessage: "Cart deleted", errorMessage: "Couldn't delete cart" },
+    onSuccess: (_, deletedId) => {
+      removeListItem(queryClient, ["carts"], "carts", deletedId);
+      queryClient.removeQueries({ queryKey: ["cartDetail", String(deletedId)] });
+    },
+  });
+
+  const updateLine = (index: number, line: Partial<CartLine>) => {
+    setLines(lines.map((l, i) => (i === index ? { ...l, ...line } : l)));
+  };
+
+  const handleCreateCart = (e: React.FormEvent) => {
+    e.preventDefault();
+    const products = lines.filter((line) => line.id > 0 && line.quantity > 0);
+    if (products.length > 0) {
+      createMutation.mutate({ userId, products });
+    }
+  };
+
   return (
-    <div>Carts Page</div>
-  )
-}
+    <div className="container mx-auto p-6">
+      <h1 className="text-3xl font-bold text-center mb-6 dark:text-white">Carts</h1>
+
+      {/* Create Cart Form */}
+      <form
+        onSubmit={handleCreateCart}
+        className="flex flex-col gap-4 mb-6 bg-white p-6 shadow-md rounded-lg"
+      >
+        <label className="flex flex-col gap-1 text-sm text-gray-700">
+          User ID
+          <input
+            type="number"
+            min={1}
+            value={userId}
+            onChange={(e) => setUserId(Number(e.target.value))}
+            className="border p-3 rounded-lg"
+          />
+        </label>
+        {lines.map((line, index) => (
+          <div key={index} className="flex gap-2 items-end">
+            <label className="flex flex-1 flex-col gap-1 text-sm text-gray-700">
+              Product ID
+              <input
+                type="number"
+                min={1}
+                value={line.id}
+                onChange={(e) => updateLine(index, { id: Number(e.target.value) })}
+                className="border p-3 rounded-lg"
+              />
+            </label>
+            <label className="flex flex-1 flex-col gap-1 text-sm text-gray-700">
+              Quantity
+              <input
+                type="number"
+                min={1}
+                value={line.quantity}
+                onChange={(e) => updateLine(index, { quantity: Number(e.target.value) })}
+                className="border p-3 rounded-lg"
+              />
+            </label>
+            <button
+              type="button"
+              disabled={lines.length === 1}
+              onClick={() => setLines(lines.filter((_, i) => i !== index))}
+              className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-3 rounded-lg transition-all disabled:bg-gray-300"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setLines([...lines, emptyLine])}
+          className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-all"
+        >
+          Add Product Line
+        </button>
+        <button
+          type="submit"
+          disabled={createMutation.isPending}
+          className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-blue-300"
+        >
+          {createMutation.isPending ? "Creating..." : "Create Cart"}
+        </button>
+      </form>
+
+      {/* List of Carts */}
+      <div className="flex justify-end mb-4">
+        <ListModeToggle mode={cartList.mode} onChange={cartList.setMode} />
+      </div>
+      {cartList.isLoading ? (
+        <p className="text-center text-gray-500">Loading...</p>
+      ) : cartList.isError ? (
+        <QueryError
+          error={cartList.error}
+          resource="Carts"
+          onRetry={cartList.refetch}
+          isRetrying={cartList.isFetching}
+        />
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-6">
+          {carts.map((cart) => (
+            <div key={cart.id} className="bg-white p-6 rounded-lg shadow-md flex flex-col">
+              <div className="flex items-center justify-between mb-2">
+                <h2 className="text-xl font-bold">Cart #{cart.id}</h2>
+                <UserLink userId={cart.userId} />
+              </div>
+              <ul className="text-gray-600 text-sm space-y-1 flex-1">
+                {cart.products.map((product) => (
+                  <li key={product.id} className="flex justify-between gap-2">
+                    <span className="truncate">{product.title}</span>
+                    <span className="shrink-0">x{product.quantity}</span>
+                  </li>
+                ))}
+              </ul>
+              <p className="text-sm text-gray-500 mt-4">
+                {cart.totalProducts} products, {cart.totalQuantity} items
+              </p>
+              <div className="flex items-center gap-2">
+                <p className="text-lg font-bold text-gray-900">${cart.discountedTotal.toFixed(2)}</p>
+                {cart.discountedTotal < cart.total && (
+                  <p className="text-sm text-red-600 line-through">${cart.total.toFixed(2)}</p>
+                )}
+              </div>
+
+              <div className="flex mt-4 gap-2">
+                <button
+                  className="bg-yellow-500 hover:bg-yellow-600 text-white px-4 py-2 rounded-lg transition-all"
+                  onClick={() => navigate(`/carts/${cart.id}`)}
+                >
+                  View
+                </button>
+                <button
+                  className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg transition-all"
+                  onClick={() => deleteMutation.mutate(cart.id)}
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      {cartList.mode === "pages" ? (
+        <Pagination
+          page={cartList.page}
+          pageCount={cartList.pageCount}
+          pageSize={cartList.pageSize}
+          total={cartList.total}
+          onPageChange={cartList.setPage}
+        />
+      ) : (
+        <InfiniteScrollTrigger
+          hasNextPage={cartList.hasNextPage}
+          isFetchingNextPage={cartList.isFetchingNextPage}
+          onLoadMore={cartList.fetchNextPage}
+        />
+      )}
+    </div>
+  );
+};
 
-export default Carts
\ No newline at end of file
+export default Carts;
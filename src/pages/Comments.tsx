@@ -1,192 +1,422 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { useState } from "react";
-import axios from "axios";
-
-// Define Comment Type
-interface Comment {
-  id: number;
-  body: string;
-}
-
-// Fetch all comments
-const fetchComments = async (): Promise<Comment[]> => {
-  const res = await axios.get("https://dummyjson.com/comments");
-  return res.data.comments;
-};
+import { FlagIcon, HeartIcon } from "@heroicons/react/16/solid";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import {
+  deleteComment,
+  fetchComments,
+  updateComment,
+  type Comment,
+} from "../api/comments";
+import usePaginatedList from "../hooks/usePaginatedList";
+import useAuthGuard from "../hooks/useAuthGuard";
+import usePendingIds from "../hooks/usePendingIds";
+import usePreferences from "../hooks/usePreferences";
+import useUndoableDelete from "../hooks/useUndoableDelete";
+import Pagination from "../components/Pagination";
+import InfiniteScrollTrigger from "../components/InfiniteScrollTrigger";
+import ListModeToggle from "../components/ListModeToggle";
+import QueryError from "../components/QueryError";
+import { notifyBulkResult, runBulk } from "../utils/bulkActions";
+import {
+  findFlaggedWords,
+  isApproved,
+  loadApprovedComments,
+  saveApprovedComments,
+  wordListPattern,
+  type ApprovedComments,
+} from "../utils/moderation";
+import { notify } from "../utils/notify";
 
-// Create a new comment (Fixed)
-const createComment = async (newComment: Omit<Comment, "id">): Promise<Comment> => {
-  const res = await axios.post("https://dummyjson.com/comments/add", {
-    body: newComment.body,
-    postId: 1, // Required by DummyJSON
-    userId: 1, // Required by DummyJSON
-  });
-  
-  // Return the comment from the API response
-  return res.data;
+// Marks each match of the word list in a comment's text
+const Highlighted = ({ text, pattern }: { text: string; pattern: RegExp | null }) => {
+  if (!pattern) return <>{text}</>;
+  // Splitting on a pattern with a group keeps the matches at the odd indexes
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="rounded bg-yellow-200 px-0.5">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
 };
 
-// Update an existing comment
-const updateComment = async (updatedComment: Comment): Promise<Comment> => {
-  const res = await axios.put(`https://dummyjson.com/comments/${updatedComment.id}`, {
-    body: updatedComment.body,
-  });
-  return { id: updatedComment.id, body: res.data.body };
-};
+const CommentEditor = ({
+  initialBody,
+  onSave,
+  onCancel,
+}: {
+  initialBody: string;
+  onSave: (body: string) => void;
+  onCancel: () => void;
+}) => {
+  const [body, setBody] = useState<string>(initialBody);
 
-// Delete a comment
-const deleteComment = async (id: number): Promise<void> => {
-  await axios.delete(`https://dummyjson.com/comments/${id}`);
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave(body.trim());
+      }}
+      className="flex flex-col gap-2"
+    >
+      <textarea
+        aria-label="Comment"
+        autoFocus
+        rows={4}
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        // Escape cancels and Ctrl/Cmd+Enter saves without leaving the keyboard
+        onKeyDown={(e) => {
+          if (e.key === "Escape") {
+            e.preventDefault();
+            onCancel();
+          } else if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+            e.preventDefault();
+            e.currentTarget.form?.requestSubmit();
+          }
+        }}
+        className="border p-3 rounded-lg"
+      />
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={!body.trim()}
+          className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-blue-300"
+        >
+          Save
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-all"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
 };
 
 const Comments = () => {
-  const queryClient = useQueryClient();
-  const [newComment, setNewComment] = useState({ body: "" });
-  const [editComment, setEditComment] = useState<Comment | null>(null);
+  const guard = useAuthGuard();
+  const { preferences } = usePreferences();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const moderating = searchParams.get("moderate") === "1";
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [approved, setApproved] = useState<ApprovedComments>(loadApprovedComments);
+  const pattern = wordListPattern(preferences.moderationWords);
+
+  useEffect(() => {
+    saveApprovedComments(approved);
+  }, [approved]);
 
   // Fetch Comments
-  const { data: comments, isLoading } = useQuery({
+  const commentList = usePaginatedList({
     queryKey: ["comments"],
-    queryFn: fetchComments,
+    listKey: "comments",
+    fetchPage: fetchComments,
   });
 
-  // Create Comment Mutation (Fixed)
-  const createMutation = useMutation({
-    mutationFn: createComment,
-    onSuccess: (data) => {
-      // Update the cache with the new comment from the API
-      queryClient.setQueryData<Comment[]>(["comments"], (oldComments = []) => [
-        data,
-        ...oldComments,
-      ]);
-      
-      setNewComment({ body: "" }); // Clear input field
-    },
-    onError: (error) => {
-      console.error("Failed to add comment:", error);
-    },
+  // The moderation queue checks every comment, not just the current page
+  const allComments = useQuery({
+    queryKey: ["comments", "all"],
+    queryFn: () => fetchComments({ limit: 0 }),
+    enabled: moderating,
   });
+  const isPending = usePendingIds(["comments"]);
 
+  // Optimistic cache updates for these mutation keys live in utils/mutationDefaults
   // Update Comment Mutation
   const updateMutation = useMutation({
+    mutationKey: ["comments", "update"],
+    meta: { successMessage: "Comment updated", errorMessage: "Couldn't update comment" },
     mutationFn: updateComment,
-    onSuccess: (updatedComment) => {
-      queryClient.setQueryData<Comment[]>(["comments"], (oldComments) =>
-        oldComments?.map((comment) => (comment.id === updatedComment.id ? updatedComment : comment))
-      );
-      setEditComment(null);
-    },
   });
 
   // Delete Comment Mutation
   const deleteMutation = useMutation({
+    mutationKey: ["comments", "delete"],
+    meta: { successMessage: "Comment deleted", errorMessage: "Couldn't delete comment" },
+    mutationFn: deleteComment,
+  });
+
+  // Bulk deletes report one summary instead of a notification per comment
+  const bulkDeleteMutation = useMutation({
+    mutationKey: ["comments", "delete"],
+    meta: { silent: true },
     mutationFn: deleteComment,
-    onSuccess: (_, deletedId) => {
-      queryClient.setQueryData<Comment[]>(["comments"], (oldComments) =>
-        oldComments?.filter((comment) => comment.id !== deletedId)
-      );
+  });
+
+  const { scheduleDelete, scheduleDeleteMany, isScheduled } = useUndoableDelete({
+    scope: "comments",
+    label: "Comment",
+    onDelete: (id) => deleteMutation.mutateAsync(id),
+    onDeleteMany: async (ids) => {
+      const failures = await runBulk(ids, (id) => bulkDeleteMutation.mutateAsync(id));
+      notifyBulkResult({
+        total: ids.length,
+        failures,
+        noun: "comments",
+        verb: "deleted",
+        describe: (id) => `Comment #${id}`,
+      });
     },
   });
 
-  const handleAddComment = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (newComment.body.trim()) {
-      createMutation.mutate(newComment);
+  const flaggedWords = (comment: Comment) =>
+    isApproved(comment, approved) ? [] : findFlaggedWords(comment.body, pattern);
+
+  const comments = commentList.items.filter((comment) => !isScheduled(comment.id));
+  const queue = (allComments.data?.comments ?? []).filter(
+    (comment) => !isScheduled(comment.id) && flaggedWords(comment).length > 0
+  );
+  const shownComments = moderating ? queue : comments;
+  const selectableComments = queue.filter((comment) => !isPending(comment.id));
+  const selectedComments = selectableComments.filter((comment) => selectedIds.includes(comment.id));
+  const allSelected = selectableComments.length > 0 && selectedComments.length === selectableComments.length;
+
+  const setModerating = (moderate: boolean) => {
+    setSelectedIds([]);
+    setEditingId(null);
+    setSearchParams((params) => {
+      if (moderate) {
+        params.set("moderate", "1");
+      } else {
+        params.delete("moderate");
+      }
+      params.delete("page");
+      return params;
+    });
+  };
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds((ids) => (ids.includes(id) ? ids.filter((selectedId) => selectedId !== id) : [...ids, id]));
+  };
+
+  const approveSelected = () => {
+    guard(() => {
+      setApproved((current) => ({
+        ...current,
+        ...Object.fromEntries(selectedComments.map((comment) => [comment.id, comment.body])),
+      }));
+      notify({
+        kind: "success",
+        title: selectedComments.length === 1 ? "Comment approved" : `${selectedComments.length} comments approved`,
+      });
+      setSelectedIds([]);
+    });
+  };
+
+  const deleteSelected = () => {
+    guard(() => {
+      scheduleDeleteMany(selectedComments.map((comment) => comment.id));
+      setSelectedIds([]);
+    });
+  };
+
+  const saveEdit = (comment: Comment, body: string) => {
+    if (body !== comment.body) {
+      updateMutation.mutate({ ...comment, body });
     }
+    setEditingId(null);
   };
 
   return (
     <div className="container mx-auto p-6">
-      <h1 className="text-3xl font-bold text-center mb-6">Comments</h1>
-
-      {/* Create Comment Form */}
-      <form
-        onSubmit={handleAddComment}
-        className="flex flex-col gap-4 mb-6 bg-white p-6 shadow-md rounded-lg"
-      >
-        <input
-          type="text"
-          placeholder="Write a comment..."
-          value={newComment.body}
-          onChange={(e) => setNewComment({ body: e.target.value })}
-          className="border p-3 rounded-lg"
-        />
-        <button
-          type="submit"
-          disabled={createMutation.isPending}
-          className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-blue-300"
-        >
-          {createMutation.isPending ? "Adding..." : "Add Comment"}
-        </button>
-      </form>
+      <h1 className="text-3xl font-bold text-center mb-6 dark:text-white">Comments</h1>
+
+      <p className="text-center text-gray-500 mb-6">
+        To join a discussion, open the post a comment belongs to.
+      </p>
+
+      {/* Moderation */}
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700 dark:text-gray-300">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={moderating}
+              onChange={(e) => setModerating(e.target.checked)}
+              className="w-4 h-4"
+            />
+            Moderation mode
+          </label>
+          {moderating && (
+            <p className="text-gray-500">
+              Flagging {preferences.moderationWords.length} words ·{" "}
+              <Link to="/settings" className="text-blue-500 hover:underline">
+                Edit word list
+              </Link>
+            </p>
+          )}
+        </div>
+        {!moderating && <ListModeToggle mode={commentList.mode} onChange={commentList.setMode} />}
+      </div>
+
+      {/* Bulk Actions */}
+      {moderating && queue.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+          <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={() => setSelectedIds(allSelected ? [] : selectableComments.map((comment) => comment.id))}
+              className="w-4 h-4"
+            />
+            {selectedComments.length > 0 ? `${selectedComments.length} selected` : `Select all ${queue.length} flagged`}
+          </label>
+          {selectedComments.length > 0 && (
+            <>
+              <button
+                type="button"
+                onClick={approveSelected}
+                className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded-lg transition-all"
+              >
+                Approve
+              </button>
+              <button
+                type="button"
+                onClick={deleteSelected}
+                className="bg-red-500 hover:bg-red-600 text-white px-3 py-1 rounded-lg transition-all"
+              >
+                Delete
+              </button>
+              <button
+                type="button"
+                onClick={() => setSelectedIds([])}
+                className="bg-gray-500 hover:bg-gray-600 text-white px-3 py-1 rounded-lg transition-all"
+              >
+                Clear selection
+              </button>
+            </>
+          )}
+        </div>
+      )}
 
       {/* List of Comments */}
-      {isLoading ? (
+      {(moderating ? allComments.isLoading : commentList.isLoading) ? (
         <p className="text-center text-gray-500">Loading...</p>
+      ) : moderating && allComments.isError ? (
+        <QueryError
+          error={allComments.error}
+          resource="Comments"
+          onRetry={allComments.refetch}
+          isRetrying={allComments.isFetching}
+        />
+      ) : !moderating && commentList.isError ? (
+        <QueryError
+          error={commentList.error}
+          resource="Comments"
+          onRetry={commentList.refetch}
+          isRetrying={commentList.isFetching}
+        />
+      ) : moderating && queue.length === 0 ? (
+        <p className="text-center text-gray-500">Nothing to moderate. No comments match the word list.</p>
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-6">
-          {comments?.map((comment) => (
-            <div key={comment.id} className="bg-white p-6 rounded-lg shadow-md">
-              <p className="text-gray-600">{comment.body}</p>
-
-              <div className="flex mt-4 gap-2">
-                <button
-                  className="bg-yellow-500 hover:bg-yellow-600 text-white px-4 py-2 rounded-lg transition-all"
-                  onClick={() => setEditComment(comment)}
-                >
-                  Edit
-                </button>
-                <button
-                  className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg transition-all"
-                  onClick={() => deleteMutation.mutate(comment.id)}
-                >
-                  Delete
-                </button>
-              </div>
-            </div>
-          ))}
-        </div>
-      )}
+          {shownComments.map((comment) => {
+            const flagged = flaggedWords(comment);
+            return (
+              <div
+                key={comment.id}
+                aria-busy={isPending(comment.id)}
+                className={`bg-white p-6 rounded-lg shadow-md transition-opacity ${isPending(comment.id) ? "opacity-50" : ""}`}
+              >
+                <div className="flex items-start justify-between gap-2 mb-2 text-sm">
+                  <Link to={`/users/${comment.user.id}`} className="text-gray-700 hover:text-blue-600 hover:underline">
+                    <span className="font-medium">{comment.user.fullName}</span>{" "}
+                    <span className="text-gray-500">@{comment.user.username}</span>
+                  </Link>
+                  {moderating && (
+                    <input
+                      type="checkbox"
+                      aria-label={`Select comment #${comment.id}`}
+                      checked={selectedIds.includes(comment.id)}
+                      disabled={isPending(comment.id)}
+                      onChange={() => toggleSelected(comment.id)}
+                      className="w-4 h-4"
+                    />
+                  )}
+                </div>
+
+                {flagged.length > 0 && (
+                  <p className="mb-2 inline-flex items-center gap-1 rounded-full bg-yellow-100 px-2 py-0.5 text-xs text-yellow-800">
+                    <FlagIcon aria-hidden="true" className="size-3" />
+                    Flagged: {flagged.join(", ")}
+                  </p>
+                )}
+
+                {editingId === comment.id ? (
+                  <CommentEditor
+                    initialBody={comment.body}
+                    onSave={(body) => saveEdit(comment, body)}
+                    onCancel={() => setEditingId(null)}
+                  />
+                ) : (
+                  <p className="text-gray-600">
+                    <Highlighted text={comment.body} pattern={flagged.length > 0 ? pattern : null} />
+                  </p>
+                )}
+
+                <div className="flex items-center justify-between mt-2 text-sm">
+                  <Link to={`/posts/${comment.postId}`} className="text-blue-500 hover:underline">
+                    View post #{comment.postId}
+                  </Link>
+                  <span className="inline-flex items-center gap-1 text-gray-500">
+                    <HeartIcon aria-hidden="true" className="size-4" />
+                    {comment.likes} likes
+                  </span>
+                </div>
 
-      {/* Edit Comment Modal */}
-      {editComment && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center">
-          <div className="bg-white p-6 rounded-lg shadow-lg w-96">
-            <h3 className="text-xl font-bold mb-4">Edit Comment</h3>
-            <form
-              onSubmit={(e) => {
-                e.preventDefault();
-                updateMutation.mutate(editComment);
-              }}
-              className="flex flex-col gap-4"
-            >
-              <input
-                type="text"
-                placeholder="Comment"
-                value={editComment.body}
-                onChange={(e) => setEditComment({ ...editComment, body: e.target.value })}
-                className="border p-3 rounded-lg"
-              />
-              <div className="flex justify-end gap-2">
-                <button
-                  type="submit"
-                  className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all"
-                >
-                  Save
-                </button>
-                <button
-                  className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-all"
-                  onClick={() => setEditComment(null)}
-                >
-                  Cancel
-                </button>
+                {editingId !== comment.id && (
+                  <div className="flex mt-4 gap-2">
+                    <button
+                      disabled={isPending(comment.id)}
+                      className="bg-yellow-500 hover:bg-yellow-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-yellow-300"
+                      onClick={() => guard(() => setEditingId(comment.id))}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      disabled={isPending(comment.id)}
+                      className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-red-300"
+                      onClick={() => guard(() => scheduleDelete(comment.id))}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
               </div>
-            </form>
-          </div>
+            );
+          })}
         </div>
       )}
+      {!moderating &&
+        (commentList.mode === "pages" ? (
+          <Pagination
+            page={commentList.page}
+            pageCount={commentList.pageCount}
+            pageSize={commentList.pageSize}
+            total={commentList.total}
+            onPageChange={commentList.setPage}
+          />
+        ) : (
+          <InfiniteScrollTrigger
+            hasNextPage={commentList.hasNextPage}
+            isFetchingNextPage={commentList.isFetchingNextPage}
+            onLoadMore={commentList.fetchNextPage}
+          />
+        ))}
     </div>
   );
 };
 
-export default Comments;
\ No newline at end of file
+export default Comments;
@@ -0,0 +1,89 @@
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { Navigate, useLocation, useNavigate, type Location } from "react-router-dom";
+import type { Credentials } from "../api/auth";
+import useAuth from "../hooks/useAuth";
+
+const Login = () => {
+  const { login, isAuthenticated } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}${from.hash}` : "/";
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<Credentials>({ defaultValues: { username: "", password: "" } });
+
+  const loginMutation = useMutation({
+    mutationFn: login,
+    meta: { successMessage: "Signed in", errorMessage: "Couldn't sign in" },
+    onSuccess: () => {
+      navigate(redirectTo, { replace: true });
+    },
+  });
+
+  if (isAuthenticated && !loginMutation.isPending) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  return (
+    <div className="flex min-h-full flex-col justify-center px-6 py-12 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-sm">
+        <h2 className="mt-10 text-center text-2xl font-bold tracking-tight text-gray-900">
+          Sign in to your account
+        </h2>
+        {from && (
+          <p className="mt-2 text-center text-sm text-gray-500">
+            You need to be signed in to make changes.
+          </p>
+        )}
+      </div>
+
+      <div className="mt-10 sm:mx-auto sm:w-full sm:max-w-sm">
+        <form
+          onSubmit={handleSubmit((credentials) => loginMutation.mutate(credentials))}
+          noValidate
+          className="flex flex-col gap-4 bg-white p-6 shadow-md rounded-lg"
+        >
+          <label className="flex flex-col gap-1 text-sm text-gray-700">
+            Username
+            <input
+              autoComplete="username"
+              className="border p-3 rounded-lg"
+              {...register("username", { required: "Username is required" })}
+            />
+            {errors.username && <span className="text-red-600">{errors.username.message}</span>}
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-700">
+            Password
+            <input
+              type="password"
+              autoComplete="current-password"
+              className="border p-3 rounded-lg"
+              {...register("password", { required: "Password is required" })}
+            />
+            {errors.password && <span className="text-red-600">{errors.password.message}</span>}
+          </label>
+          {loginMutation.isError && (
+            <p className="text-sm text-red-600">Invalid username or password.</p>
+          )}
+          <button
+            type="submit"
+            disabled={loginMutation.isPending}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-blue-300"
+          >
+            {loginMutation.isPending ? "Signing in..." : "Sign in"}
+          </button>
+        </form>
+        <p className="mt-6 text-center text-sm text-gray-500">
+          Try a DummyJSON test account, e.g. <code>emilys</code> / <code>emilyspass</code>.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default Login;
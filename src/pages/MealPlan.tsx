@@ -0,0 +1,172 @@
+import { MinusIcon, PlusIcon, XMarkIcon } from "@heroicons/react/16/solid";
+import { Link } from "react-router-dom";
+import useMealPlan from "../hooks/useMealPlan";
+import { MEAL_DAYS, MEAL_SLOTS } from "../context/MealPlanContext";
+import { downloadFile } from "../utils/download";
+import {
+  buildShoppingList,
+  formatShoppingList,
+  type ShoppingListFormat,
+} from "../utils/shoppingList";
+
+const exportFormats: { format: ShoppingListFormat; label: string; filename: string; type: string }[] = [
+  { format: "text", label: "Export as text", filename: "shopping-list.txt", type: "text/plain" },
+  { format: "markdown", label: "Export as Markdown", filename: "shopping-list.md", type: "text/markdown" },
+];
+
+const MealPlan = () => {
+  const { meals, updateServings, removeMeal, clearPlan, checkedItems, toggleItem, clearChecked } = useMealPlan();
+  const shoppingList = buildShoppingList(meals);
+  const remaining = shoppingList.filter((item) => !checkedItems.includes(item.key)).length;
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold dark:text-white">Meal Plan</h1>
+        {meals.length > 0 && (
+          <button
+            type="button"
+            onClick={clearPlan}
+            className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg transition-all"
+          >
+            Clear plan
+          </button>
+        )}
+      </div>
+
+      {meals.length === 0 && (
+        <p className="text-center text-gray-500">
+          Nothing planned yet. Add meals from the{" "}
+          <Link to="/recipes" className="text-blue-500 hover:underline">
+            recipes
+          </Link>
+          .
+        </p>
+      )}
+
+      {/* Week */}
+      <div className="bg-white shadow-md rounded-lg overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-700">
+            <tr>
+              <th className="p-3">Day</th>
+              {MEAL_SLOTS.map((slot) => (
+                <th key={slot} className="p-3">
+                  {slot}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 text-gray-600">
+            {MEAL_DAYS.map((day) => (
+              <tr key={day}>
+                <th scope="row" className="p-3 text-left font-medium text-gray-900">
+                  {day}
+                </th>
+                {MEAL_SLOTS.map((slot) => (
+                  <td key={slot} className="p-3 align-top">
+                    <ul className="space-y-2">
+                      {meals
+                        .filter((meal) => meal.day === day && meal.slot === slot)
+                        .map((meal) => (
+                          <li key={meal.id} className="rounded-md bg-gray-50 p-2">
+                            <div className="flex items-start justify-between gap-2">
+                              <Link to={`/recipes/${meal.recipe.id}`} className="font-medium text-gray-900 hover:underline">
+                                {meal.recipe.name}
+                              </Link>
+                              <button
+                                type="button"
+                                onClick={() => removeMeal(meal.id)}
+                                className="text-gray-400 hover:text-gray-500"
+                              >
+                                <span className="sr-only">Remove {meal.recipe.name}</span>
+                                <XMarkIcon aria-hidden="true" className="size-4" />
+                              </button>
+                            </div>
+                            <div className="mt-1 flex items-center gap-2 text-xs">
+                              <button
+                                type="button"
+                                disabled={meal.servings <= 1}
+                                onClick={() => updateServings(meal.id, meal.servings - 1)}
+                                className="rounded-md border p-0.5 disabled:opacity-40"
+                              >
+                                <span className="sr-only">Fewer servings</span>
+                                <MinusIcon aria-hidden="true" className="size-3" />
+                              </button>
+                              <span>{meal.servings} servings</span>
+                              <button
+                                type="button"
+                                onClick={() => updateServings(meal.id, meal.servings + 1)}
+                                className="rounded-md border p-0.5"
+                              >
+                                <span className="sr-only">More servings</span>
+                                <PlusIcon aria-hidden="true" className="size-3" />
+                              </button>
+                            </div>
+                          </li>
+                        ))}
+                    </ul>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Shopping List */}
+      {shoppingList.length > 0 && (
+        <section className="bg-white p-6 shadow-md rounded-lg">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+            <h2 className="text-xl font-bold">
+              Shopping list <span className="text-sm font-normal text-gray-500">({remaining} left)</span>
+            </h2>
+            <div className="flex flex-wrap gap-2">
+              {exportFormats.map(({ format, label, filename, type }) => (
+                <button
+                  key={format}
+                  type="button"
+                  onClick={() => downloadFile(filename, formatShoppingList(shoppingList, checkedItems, format), type)}
+                  className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all"
+                >
+                  {label}
+                </button>
+              ))}
+              <button
+                type="button"
+                disabled={checkedItems.length === 0}
+                onClick={clearChecked}
+                className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-gray-300"
+              >
+                Uncheck all
+              </button>
+            </div>
+          </div>
+          <ul className="divide-y divide-gray-100">
+            {shoppingList.map((item) => {
+              const checked = checkedItems.includes(item.key);
+              return (
+                <li key={item.key} className="py-2">
+                  <label className="flex items-start gap-3">
+                    <input
+                      type="checkbox"
+                      checked={checked}
+                      onChange={() => toggleItem(item.key)}
+                      className="mt-1 w-4 h-4"
+                    />
+                    <span className={checked ? "text-gray-400 line-through" : "text-gray-700"}>
+                      {item.label}
+                      <span className="block text-xs text-gray-400">{item.recipes.join(", ")}</span>
+                    </span>
+                  </label>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default MealPlan;
@@ -0,0 +1,19 @@
+import { Link } from "react-router-dom";
+
+const NotFound = () => {
+  return (
+    <div className="container mx-auto p-6 text-center space-y-4">
+      <p className="text-6xl font-bold text-blue-500">404</p>
+      <h1 className="text-3xl font-bold dark:text-white">Page not found</h1>
+      <p className="text-gray-500">The page you're looking for doesn't exist or has been moved.</p>
+      <Link
+        to="/"
+        className="inline-block bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all"
+      >
+        Back to home
+      </Link>
+    </div>
+  );
+};
+
+export default NotFound;
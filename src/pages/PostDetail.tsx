@@ -0,0 +1,153 @@
+import { HeartIcon } from "@heroicons/react/16/solid";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { fetchPost } from "../api/posts";
+import { createComment, fetchPostComments } from "../api/comments";
+import useAuthGuard from "../hooks/useAuthGuard";
+import UserLink from "../components/UserLink";
+import QueryError from "../components/QueryError";
+import Markdown from "../components/Markdown";
+import PostReactions from "../components/PostReactions";
+
+const PostDetail = () => {
+  const { id } = useParams();
+  const guard = useAuthGuard();
+  const [newComment, setNewComment] = useState<string>("");
+
+  const { data: post, isLoading, isError, error, refetch, isFetching } = useQuery({
+    queryKey: ["postDetail", id],
+    queryFn: () => fetchPost(id!),
+  });
+
+  // limit=0 asks DummyJSON for the whole thread at once
+  const {
+    data: commentList,
+    isLoading: isLoadingComments,
+    isError: isCommentsError,
+    error: commentsError,
+    refetch: refetchComments,
+    isFetching: isFetchingComments,
+  } = useQuery({
+    queryKey: ["postComments", id],
+    queryFn: () => fetchPostComments(id!, { limit: 0 }),
+  });
+
+  const createMutation = useMutation({
+    mutationKey: ["comments", "create"],
+    mutationFn: createComment,
+    meta: { successMessage: "Comment added", errorMessage: "Couldn't add comment" },
+  });
+
+  const handleAddComment = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newComment.trim()) {
+      // The thread and the global list are updated by the mutation defaults
+      guard((user) =>
+        createMutation.mutate(
+          {
+            body: newComment,
+            postId: Number(id),
+            user: { id: user.id, username: user.username, fullName: `${user.firstName} ${user.lastName}` },
+          },
+          { onSuccess: () => setNewComment("") }
+        )
+      );
+    }
+  };
+
+  if (isError) {
+    return (
+      <QueryError
+        error={error}
+        resource="Post"
+        onRetry={refetch}
+        isRetrying={isFetching}
+        backTo={{ to: "/posts", label: "Back to posts" }}
+      />
+    );
+  }
+
+  if (isLoading || post == undefined) {
+    return <p className="text-center text-gray-500 p-6">Loading...</p>;
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-6">
+      {/* Post */}
+      <article className="bg-white p-6 shadow-md rounded-lg">
+        <h1 className="text-3xl font-bold text-gray-900">{post.title}</h1>
+        <div className="mt-2">
+          <UserLink userId={post.userId} />
+        </div>
+        <Markdown source={post.body} className="text-gray-600 mt-4" />
+        <div className="flex flex-wrap gap-2 mt-4">
+          {post.tags.map((tag) => (
+            <Link
+              key={tag}
+              to={`/posts?tag=${encodeURIComponent(tag)}`}
+              className="rounded-full bg-gray-100 px-3 py-1 text-xs text-gray-700 hover:bg-gray-200"
+            >
+              #{tag}
+            </Link>
+          ))}
+        </div>
+        <div className="mt-4">
+          <PostReactions post={post} />
+        </div>
+      </article>
+
+      {/* Comments */}
+      <section className="bg-white p-6 shadow-md rounded-lg">
+        <h2 className="text-xl font-bold mb-4">Comments ({commentList?.total ?? 0})</h2>
+        {isLoadingComments ? (
+          <p className="text-gray-500">Loading...</p>
+        ) : isCommentsError ? (
+          <QueryError
+            error={commentsError}
+            resource="Comments"
+            onRetry={refetchComments}
+            isRetrying={isFetchingComments}
+          />
+        ) : commentList?.comments.length === 0 ? (
+          <p className="text-gray-500">No comments yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {commentList?.comments.map((comment) => (
+              <li key={comment.id} className="py-3 text-gray-600">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <Link to={`/users/${comment.user.id}`} className="font-medium text-gray-900 hover:underline">
+                    {comment.user.fullName}
+                  </Link>
+                  <span className="inline-flex items-center gap-1 text-gray-500">
+                    <HeartIcon aria-hidden="true" className="size-4" />
+                    {comment.likes}
+                  </span>
+                </div>
+                <p className="mt-1">{comment.body}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleAddComment} className="flex flex-col gap-4 mt-6">
+          <textarea
+            placeholder="Write a comment..."
+            value={newComment}
+            onChange={(e) => setNewComment(e.target.value)}
+            className="border p-3 rounded-lg"
+          />
+          <button
+            type="submit"
+            disabled={createMutation.isPending}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-blue-300"
+          >
+            {createMutation.isPending ? "Adding..." : "Add Comment"}
+          </button>
+        </form>
+      </section>
+    </div>
+  );
+};
+
+export default PostDetail;
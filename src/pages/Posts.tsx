@@ -1,146 +1,230 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { useState } from "react";
-import axios from "axios";
-
-// Define Post Type
-interface Post {
-  id: number;
-  title: string;
-  body: string;
-  tags: string[];
-  views: number;
-  userId: number;
-}
-
-// Fetch all posts
-const fetchPosts = async (): Promise<Post[]> => {
-  const res = await axios.get("https://dummyjson.com/posts");
-  return res.data.posts;
-};
-
-// Create a new post
-const createPost = async (newPost: Omit<Post, "id" | "views">): Promise<Post> => {
-  const res = await axios.post("https://dummyjson.com/posts/add", newPost);
-  return res.data;
-};
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import {
+  createPost,
+  deletePost,
+  fetchPostTags,
+  updatePost,
+  type Post,
+} from "../api/posts";
+import usePaginatedList from "../hooks/usePaginatedList";
+import useAuthGuard from "../hooks/useAuthGuard";
+import usePendingIds from "../hooks/usePendingIds";
+import useUndoableDelete from "../hooks/useUndoableDelete";
+import Pagination from "../components/Pagination";
+import InfiniteScrollTrigger from "../components/InfiniteScrollTrigger";
+import ListModeToggle from "../components/ListModeToggle";
+import QueryError from "../components/QueryError";
+import UserLink from "../components/UserLink";
+import PostComposer from "../components/PostComposer";
+import Markdown from "../components/Markdown";
+import PostReactions from "../components/PostReactions";
+import { fetchFilteredPosts, parsePostFilters, postSortOptions } from "../utils/postFilters";
 
-// Update an existing post
-const updatePost = async ({ id, ...updatedPost }: Partial<Post> & { id: number }): Promise<Post> => {
-  const res = await axios.put(`https://dummyjson.com/posts/${id}`, updatedPost);
-  return res.data;
-};
+const Posts = () => {
+  const guard = useAuthGuard();
+  const [editPost, setEditPost] = useState<Post | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parsePostFilters(searchParams);
+  const [searchInput, setSearchInput] = useState(filters.q ?? "");
 
-// Delete a post
-const deletePost = async (id: number): Promise<void> => {
-  console.log(`Deleting post with ID: ${id}`);
-  await axios.delete(`https://dummyjson.com/posts/${id}`);
-};
+  // Keep the search box in step with back/forward navigation
+  useEffect(() => {
+    setSearchInput(filters.q ?? "");
+  }, [filters.q]);
 
-const Posts = () => {
-  const queryClient = useQueryClient();
-  const [newPost, setNewPost] = useState<Omit<Post, "id" | "views">>({
-    title: "",
-    body: "",
-    tags: [],
-    userId: 1,
+  // Shared with the composer's tag suggestions
+  const { data: tags } = useQuery({
+    queryKey: ["postTags"],
+    queryFn: fetchPostTags,
+    staleTime: Infinity,
   });
-  const [editPost, setEditPost] = useState<Post | null>(null);
 
-  const { data: posts, isLoading } = useQuery({
-    queryKey: ["posts"],
-    queryFn: fetchPosts,
+  const postList = usePaginatedList({
+    queryKey: ["posts", filters],
+    listKey: "posts",
+    fetchPage: (params) => fetchFilteredPosts(filters, params),
   });
+  const hasFilters = Boolean(filters.q || filters.tag);
+
+  // Every filter change starts again from the first page
+  const updateFilters = (changes: Record<string, string>) => {
+    setSearchParams((params) => {
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value) {
+          params.set(key, value);
+        } else {
+          params.delete(key);
+        }
+      });
+      params.delete("page");
+      return params;
+    });
+  };
+  const isPending = usePendingIds(["posts"]);
 
+  // Optimistic cache updates for these mutation keys live in utils/mutationDefaults
   const createMutation = useMutation({
+    mutationKey: ["posts", "create"],
+    meta: { successMessage: "Post added", errorMessage: "Couldn't add post" },
     mutationFn: createPost,
-    onSuccess: (newPost) => {
-      queryClient.setQueryData<Post[]>(["posts"], (oldPosts) => [...(oldPosts || []), newPost]);
-    },
   });
 
   const updateMutation = useMutation({
-    mutationFn: updatePost,
-    onSuccess: (updatedPost) => {
-      queryClient.setQueryData<Post[]>(["posts"], (oldPosts) =>
-        oldPosts?.map((post) => (post.id === updatedPost.id ? updatedPost : post))
-      );
-      setEditPost(null);
-    },
+    mutationKey: ["posts", "update"],
+    meta: { successMessage: "Post updated", errorMessage: "Couldn't update post" },
+    mutationFn: (post: Post) => updatePost(post),
   });
 
   const deleteMutation = useMutation({
+    mutationKey: ["posts", "delete"],
+    meta: { successMessage: "Post deleted", errorMessage: "Couldn't delete post" },
     mutationFn: deletePost,
-    onSuccess: (_, deletedId) => {
-      queryClient.setQueryData<Post[]>(["posts"], (oldPosts) =>
-        oldPosts?.filter((post) => post.id !== deletedId)
-      );
-    },
   });
 
+  const { scheduleDelete, isScheduled } = useUndoableDelete({
+    scope: "posts",
+    label: "Post",
+    onDelete: (id) => deleteMutation.mutateAsync(id),
+  });
+  const posts = postList.items.filter((post) => !isScheduled(post.id));
+
   return (
     <div className="container mx-auto p-6">
-      <h1 className="text-3xl font-bold text-center mb-6">List of Posts</h1>
+      <h1 className="text-3xl font-bold text-center mb-6 dark:text-white">List of Posts</h1>
 
       {/* Create Post Form */}
-      <form
-        onSubmit={(e) => {
-          e.preventDefault();
-          createMutation.mutate(newPost);
-          setNewPost({ title: "", body: "", tags: [], userId: 1 });
-        }}
-        className="flex flex-col gap-4 mb-6 bg-white p-6 shadow-md rounded-lg"
-      >
-        <input
-          type="text"
-          placeholder="Title"
-          value={newPost.title}
-          onChange={(e) => setNewPost({ ...newPost, title: e.target.value })}
-          className="border p-3 rounded-lg"
-        />
-        <textarea
-          placeholder="Body"
-          value={newPost.body}
-          onChange={(e) => setNewPost({ ...newPost, body: e.target.value })}
-          className="border p-3 rounded-lg"
-        />
-        <input
-          type="text"
-          placeholder="Tags (comma separated)"
-          value={newPost.tags.join(", ")}
-          onChange={(e) => setNewPost({ ...newPost, tags: e.target.value.split(", ") })}
-          className="border p-3 rounded-lg"
-        />
-        <button
-          type="submit"
-          className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all"
+      <div className="mb-6 bg-white p-6 shadow-md rounded-lg">
+        <PostComposer onSubmit={(values, user) => createMutation.mutate({ ...values, userId: user.id })} />
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col md:flex-row gap-4 mb-6 bg-white p-6 shadow-md rounded-lg">
+        <form
+          role="search"
+          onSubmit={(e) => {
+            e.preventDefault();
+            updateFilters({ q: searchInput.trim() });
+          }}
+          className="flex flex-1 gap-2"
+        >
+          <input
+            type="search"
+            placeholder="Search posts..."
+            aria-label="Search posts"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="flex-1 border p-2 rounded-lg"
+          />
+          <button type="submit" className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all">
+            Search
+          </button>
+        </form>
+        <select
+          aria-label="Tag"
+          value={filters.tag ?? ""}
+          onChange={(e) => updateFilters({ tag: e.target.value })}
+          className="border p-2 rounded-lg"
+        >
+          <option value="">All tags</option>
+          {tags?.map(({ slug, name }) => (
+            <option key={slug} value={slug}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Sort posts"
+          value={filters.sort ?? ""}
+          onChange={(e) => updateFilters({ sort: e.target.value })}
+          className="border p-2 rounded-lg"
         >
-          Add Post
-        </button>
-      </form>
+          {postSortOptions.map(({ label, value }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
 
       {/* List of Posts */}
-      {isLoading ? (
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-sm text-gray-500">
+          {hasFilters && !postList.isLoading && (
+            <>
+              {postList.total} matching posts{" "}
+              <button
+                type="button"
+                onClick={() => updateFilters({ q: "", tag: "" })}
+                className="text-blue-500 hover:underline"
+              >
+                Clear filters
+              </button>
+            </>
+          )}
+        </p>
+        <ListModeToggle mode={postList.mode} onChange={postList.setMode} />
+      </div>
+      {postList.isLoading ? (
         <p className="text-center text-gray-500">Loading...</p>
+      ) : postList.isError ? (
+        <QueryError
+          error={postList.error}
+          resource="Posts"
+          onRetry={postList.refetch}
+          isRetrying={postList.isFetching}
+        />
+      ) : posts.length === 0 ? (
+        <p className="text-center text-gray-500">No posts found.</p>
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-6">
-          {posts?.map((post) => (
-            <div key={post.id} className="bg-white p-6 rounded-lg shadow-md">
-              <h2 className="text-xl font-bold">{post.title}</h2>
-              <p className="text-gray-600 mt-2">{post.body}</p>
-              <p className="text-sm text-gray-500 mt-2">Tags: {post.tags.join(", ")}</p>
-              <p className="text-sm text-gray-500">Views: {post.views}</p>
-              <p className="text-sm text-gray-500">User ID: {post.userId}</p>
+          {posts.map((post) => (
+            <div
+              key={post.id}
+              aria-busy={isPending(post.id)}
+              className={`bg-white p-6 rounded-lg shadow-md transition-opacity ${isPending(post.id) ? "opacity-50" : ""}`}
+            >
+              <h2 className="text-xl font-bold">
+                <Link to={`/posts/${post.id}`} className="hover:text-blue-600 hover:underline">
+                  {post.title}
+                </Link>
+              </h2>
+              <Markdown source={post.body} className="text-gray-600 mt-2 line-clamp-6" />
+              <div className="flex flex-wrap gap-2 mt-2">
+                {post.tags.map((tag) => (
+                  <button
+                    key={tag}
+                    type="button"
+                    aria-pressed={filters.tag === tag}
+                    onClick={() => updateFilters({ tag: filters.tag === tag ? "" : tag })}
+                    className={`rounded-full px-3 py-1 text-xs ${
+                      filters.tag === tag ? "bg-blue-500 text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                    }`}
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+              <div className="mt-2">
+                <PostReactions post={post} />
+              </div>
+              <div className="mt-2">
+                <UserLink userId={post.userId} />
+              </div>
 
               <div className="flex mt-4 gap-2">
                 <button
-                  className="bg-yellow-500 hover:bg-yellow-600 text-white px-4 py-2 rounded-lg transition-all"
-                  onClick={() => setEditPost(post)}
+                  disabled={isPending(post.id)}
+                  className="bg-yellow-500 hover:bg-yellow-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-yellow-300"
+                  onClick={() => guard(() => setEditPost(post))}
                 >
                   Edit
                 </button>
                 <button
-                  className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg transition-all"
-                  onClick={() => deleteMutation.mutate(post.id)}
+                  disabled={isPending(post.id)}
+                  className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-red-300"
+                  onClick={() => guard(() => scheduleDelete(post.id))}
                 >
                   Delete
                 </button>
@@ -149,54 +233,35 @@ const Posts = () => {
           ))}
         </div>
       )}
+      {postList.mode === "pages" ? (
+        <Pagination
+          page={postList.page}
+          pageCount={postList.pageCount}
+          pageSize={postList.pageSize}
+          total={postList.total}
+          onPageChange={postList.setPage}
+        />
+      ) : (
+        <InfiniteScrollTrigger
+          hasNextPage={postList.hasNextPage}
+          isFetchingNextPage={postList.isFetchingNextPage}
+          onLoadMore={postList.fetchNextPage}
+        />
+      )}
 
       {/* Edit Post Modal */}
       {editPost && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center">
-          <div className="bg-white p-6 rounded-lg shadow-lg w-96">
+          <div className="bg-white p-6 rounded-lg shadow-lg w-full max-w-2xl max-h-screen overflow-y-auto">
             <h3 className="text-xl font-bold mb-4">Edit Post</h3>
-            <form
-              onSubmit={(e) => {
-                e.preventDefault();
-                updateMutation.mutate(editPost);
+            <PostComposer
+              post={editPost}
+              onSubmit={(values) => {
+                updateMutation.mutate({ ...editPost, ...values });
+                setEditPost(null);
               }}
-              className="flex flex-col gap-4"
-            >
-              <input
-                type="text"
-                placeholder="Title"
-                value={editPost.title}
-                onChange={(e) => setEditPost({ ...editPost, title: e.target.value })}
-                className="border p-3 rounded-lg"
-              />
-              <textarea
-                placeholder="Body"
-                value={editPost.body}
-                onChange={(e) => setEditPost({ ...editPost, body: e.target.value })}
-                className="border p-3 rounded-lg"
-              />
-              <input
-                type="text"
-                placeholder="Tags (comma separated)"
-                value={editPost.tags.join(", ")}
-                onChange={(e) => setEditPost({ ...editPost, tags: e.target.value.split(", ") })}
-                className="border p-3 rounded-lg"
-              />
-              <div className="flex justify-end gap-2">
-                <button
-                  type="submit"
-                  className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all"
-                >
-                  Save
-                </button>
-                <button
-                  className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-all"
-                  onClick={() => setEditPost(null)}
-                >
-                  Cancel
-                </button>
-              </div>
-            </form>
+              onCancel={() => setEditPost(null)}
+            />
           </div>
         </div>
       )}
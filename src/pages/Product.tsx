@@ -1,22 +1,20 @@
 import { useQuery } from "@tanstack/react-query";
-import axios from "../utils/AxiosInstance";
-import { useNavigate } from "react-router-dom";
-
-interface Product {
-  id: number;
-  title: string;
-  description: string;
-  price: number;
-  thumbnail: string;
-}
-
-interface ProductData {
-  products: Product[];
-}
-
-const fetchProductList = async () => {
-  return await axios.get<ProductData>("/product");
-};
+import { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import useCart from "../hooks/useCart";
+import {
+  fetchProductCategories,
+  fetchProducts,
+  type ProductListParams,
+} from "../api/products";
+import usePaginatedList from "../hooks/usePaginatedList";
+import usePreferences from "../hooks/usePreferences";
+import useScheduledDeletes from "../hooks/useScheduledDeletes";
+import { parseProductSort, productSortOptions } from "../utils/productSort";
+import Pagination from "../components/Pagination";
+import InfiniteScrollTrigger from "../components/InfiniteScrollTrigger";
+import ListModeToggle from "../components/ListModeToggle";
+import QueryError from "../components/QueryError";
 
 const ProductSkeleton = () => {
   return (
@@ -38,16 +36,124 @@ const ProductSkeleton = () => {
   );
 };
 
+const CategorySidebar = ({
+  selected,
+  onSelect,
+}: {
+  selected: string;
+  onSelect: (category: string) => void;
+}) => {
+  const { data: categories, isLoading, isError, refetch } = useQuery({
+    queryKey: ["productCategories"],
+    queryFn: fetchProductCategories,
+    staleTime: Infinity,
+  });
+
+  const itemClassName = (active: boolean) =>
+    `w-full text-left rounded-md px-3 py-2 text-sm ${
+      active ? "bg-blue-500 text-white" : "text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-800"
+    }`;
+
+  return (
+    <nav aria-label="Categories" className="space-y-1">
+      <h3 className="px-3 pb-2 text-sm font-semibold text-gray-900 dark:text-white">Categories</h3>
+      <button type="button" onClick={() => onSelect("")} className={itemClassName(selected === "")}>
+        All products
+      </button>
+      {isError && (
+        <p className="px-3 py-2 text-sm text-gray-500">
+          Couldn't load categories.{" "}
+          <button type="button" onClick={() => refetch()} className="text-blue-500 hover:underline">
+            Retry
+          </button>
+        </p>
+      )}
+      {isLoading
+        ? Array.from({ length: 8 }).map((_, index) => (
+            <div key={index} className="mx-3 my-3 h-3 bg-gray-200 rounded animate-pulse"></div>
+          ))
+        : categories?.map((category) => (
+            <button
+              key={category.slug}
+              type="button"
+              aria-current={selected === category.slug ? "page" : undefined}
+              onClick={() => onSelect(category.slug)}
+              className={itemClassName(selected === category.slug)}
+            >
+              {category.name}
+            </button>
+          ))}
+    </nav>
+  );
+};
+
 const Product = () => {
   const navigate = useNavigate();
-  const getProductList = useQuery({
-    queryKey: ["productList"],
-    queryFn: fetchProductList,
+  const { items, addItem } = useCart();
+  const { preferences } = usePreferences();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const q = searchParams.get("q") ?? "";
+  const category = searchParams.get("category") ?? "";
+  // Without a sort in the URL the user's default sort from Settings applies
+  const [defaultSortBy = "", defaultOrder = ""] = preferences.defaultSort.split(":");
+  const { sortBy, order } = searchParams.has("sortBy")
+    ? parseProductSort(searchParams.get("sortBy"), searchParams.get("order"))
+    : parseProductSort(defaultSortBy, defaultOrder);
+  const [searchInput, setSearchInput] = useState(q);
+
+  // Keep the search box in step with back/forward navigation
+  useEffect(() => {
+    setSearchInput(q);
+  }, [q]);
+
+  const filters: ProductListParams = {
+    q: q || undefined,
+    category: q ? undefined : category || undefined,
+    sortBy,
+    order,
+  };
+  const isScheduled = useScheduledDeletes("products");
+  const productList = usePaginatedList({
+    queryKey: ["productList", filters],
+    listKey: "products",
+    fetchPage: (params) => fetchProducts({ ...params, ...filters }),
   });
+  // Products deleted from their detail page stay hidden while they can be undone
+  const products = productList.items.filter((product) => !isScheduled(product.id));
+
+  // Every filter change starts again from the first page
+  const updateFilters = (changes: Record<string, string>) => {
+    setSearchParams((params) => {
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value) {
+          params.set(key, value);
+        } else {
+          params.delete(key);
+        }
+      });
+      params.delete("page");
+      return params;
+    });
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilters({ q: searchInput.trim(), category: "" });
+  };
+
+  const handleSort = (value: string) => {
+    const [field = "", direction = ""] = value.split(":");
+    // "featured" keeps an explicit Featured choice from falling back to the default sort
+    updateFilters({ sortBy: field || (preferences.defaultSort ? "featured" : ""), order: direction });
+  };
 
   return (
     <div className="container mx-auto px-4">
-      <button className="fixed bottom-4 right-4 bg-blue-500 text-white rounded-full p-4 shadow-lg hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2">
+      <button
+        onClick={() => navigate("/product/new")}
+        className="fixed bottom-4 right-4 bg-blue-500 text-white rounded-full p-4 shadow-lg hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+      >
+        <span className="sr-only">New product</span>
         <svg
           className="w-6 h-6"
           fill="none"
@@ -63,42 +169,147 @@ const Product = () => {
           ></path>
         </svg>
       </button>
-      <div className="bg-white">
+      <div className="bg-white dark:bg-gray-900">
         <div className="mx-auto max-w-2xl px-4 py-16 sm:px-6 sm:py-24 lg:max-w-7xl lg:px-8">
-          <h2 className="text-2xl font-bold tracking-tight text-gray-900">
-            List of Products
-          </h2>
-          <div className="mt-6 grid grid-cols-1 gap-x-6 gap-y-10 sm:grid-cols-2 lg:grid-cols-4 xl:gap-x-8">
-            {getProductList.isFetching
-              ? Array.from({ length: 4 }).map(() => <ProductSkeleton />)
-              : getProductList.data?.data.products.map((product) => (
-                  <div key={product.id} className="group relative" onClick={() => navigate(`/product/${product.id}`)}>
-                    <img
-                      alt={product.title}
-                      src={product.thumbnail}
-                      className="aspect-square w-full rounded-md bg-gray-200 object-cover group-hover:opacity-75 lg:aspect-auto lg:h-80"
-                    />
-                    <div className="mt-4 flex justify-between">
-                      <div>
-                        <h3 className="text-sm text-gray-700">
-                          <a>
-                            <span
-                              aria-hidden="true"
-                              className="absolute inset-0"
-                            />
-                            {product.title}
-                          </a>
-                        </h3>
-                        <p className="mt-1 text-sm text-gray-500">
-                          {product.description}
-                        </p>
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-bold tracking-tight text-gray-900 dark:text-white">
+              List of Products
+            </h2>
+            <ListModeToggle mode={productList.mode} onChange={productList.setMode} />
+          </div>
+
+          {/* Search and Sort */}
+          <div className="mt-6 flex flex-col sm:flex-row gap-4">
+            <form onSubmit={handleSearch} role="search" className="flex flex-1 gap-2">
+              <input
+                type="search"
+                placeholder="Search products..."
+                aria-label="Search products"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="flex-1 border p-2 rounded-lg"
+              />
+              <button
+                type="submit"
+                className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all"
+              >
+                Search
+              </button>
+              {q && (
+                <button
+                  type="button"
+                  onClick={() => updateFilters({ q: "" })}
+                  className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-all"
+                >
+                  Clear
+                </button>
+              )}
+            </form>
+            <select
+              aria-label="Sort products"
+              value={sortBy ? `${sortBy}:${order}` : ""}
+              onChange={(e) => handleSort(e.target.value)}
+              className="border p-2 rounded-lg"
+            >
+              {productSortOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {q && (
+            <p className="mt-4 text-sm text-gray-500">
+              {productList.total} results for "{q}"
+            </p>
+          )}
+
+          <div className="mt-6 flex flex-col lg:flex-row gap-8">
+            <aside className="lg:w-56 shrink-0">
+              <CategorySidebar
+                selected={filters.category ?? ""}
+                onSelect={(slug) => updateFilters({ category: slug, q: "" })}
+              />
+            </aside>
+            <div className="flex-1">
+              {productList.isError ? (
+                <QueryError
+                  error={productList.error}
+                  resource="Products"
+                  onRetry={productList.refetch}
+                  isRetrying={productList.isFetching}
+                />
+              ) : (
+                !productList.isLoading &&
+                !productList.isPageLoading &&
+                products.length === 0 && <p className="text-center text-gray-500">No products found.</p>
+              )}
+              <div className="grid grid-cols-1 gap-x-6 gap-y-10 sm:grid-cols-2 lg:grid-cols-3 xl:gap-x-8">
+                {productList.isLoading || productList.isPageLoading
+                  ? Array.from({ length: 4 }).map(() => <ProductSkeleton />)
+                  : products.map((product) => (
+                      <div key={product.id} className="group relative" onClick={() => navigate(`/product/${product.id}`)}>
+                        <img
+                          alt={product.title}
+                          src={product.thumbnail}
+                          className="aspect-square w-full rounded-md bg-gray-200 object-cover group-hover:opacity-75 lg:aspect-auto lg:h-80"
+                        />
+                        <div className="mt-4 flex justify-between">
+                          <div>
+                            <h3 className="text-sm text-gray-700 dark:text-gray-300">
+                              <a>
+                                <span
+                                  aria-hidden="true"
+                                  className="absolute inset-0"
+                                />
+                                {product.title}
+                              </a>
+                            </h3>
+                            <p className="mt-1 text-sm text-gray-500">
+                              {product.description}
+                            </p>
+                          </div>
+                          <p className="text-sm font-medium text-gray-900 dark:text-white">
+                            {product.price}$
+                          </p>
+                        </div>
+                        <button
+                          type="button"
+                          disabled={
+                            product.stock < product.minimumOrderQuantity ||
+                            items.some((item) => item.id === product.id && item.quantity >= product.stock)
+                          }
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            // The minimum order quantity only applies to the first units added
+                            const inCart = items.some((item) => item.id === product.id);
+                            addItem(product, inCart ? 1 : product.minimumOrderQuantity);
+                          }}
+                          className="relative z-10 mt-2 w-full bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-blue-300"
+                        >
+                          {product.stock < product.minimumOrderQuantity ? "Out of stock" : "Add to cart"}
+                        </button>
                       </div>
-                      <p className="text-sm font-medium text-gray-900">
-                        {product.price}$
-                      </p>
-                    </div>
-                  </div>
-                ))}
+                    ))}
+                {productList.isFetchingNextPage &&
+                  Array.from({ length: 4 }).map((_, index) => <ProductSkeleton key={index} />)}
+              </div>
+              {productList.mode === "pages" ? (
+                <Pagination
+                  page={productList.page}
+                  pageCount={productList.pageCount}
+                  pageSize={productList.pageSize}
+                  total={productList.total}
+                  onPageChange={productList.setPage}
+                />
+              ) : (
+                <InfiniteScrollTrigger
+                  hasNextPage={productList.hasNextPage}
+                  isFetchingNextPage={productList.isFetchingNextPage}
+                  onLoadMore={productList.fetchNextPage}
+                />
+              )}
+            </div>
           </div>
         </div>
       </div>
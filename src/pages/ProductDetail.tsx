@@ -1,62 +1,11 @@
 import { useMutation, useQuery } from "@tanstack/react-query";
-import axios from "../utils/AxiosInstance";
 import { useNavigate, useParams } from "react-router-dom";
-import { useEffect } from "react";
-
-interface ProductDetail {
-  id: number;
-  title: string;
-  description: string;
-  category: string;
-  price: number;
-  discountPercentage: number;
-  rating: number;
-  stock: number;
-  tags: string[];
-  brand: string;
-  sku: string;
-  weight: number;
-  dimensions: {
-    width: number;
-    height: number;
-    depth: number;
-  };
-  warrantyInformation: string;
-  shippingInformation: string;
-  availabilityStatus: string;
-  reviews: Review[];
-  returnPolicy: string;
-  minimumOrderQuantity: number;
-  meta: {
-    createdAt: string; // ISO date string
-    updatedAt: string; // ISO date string
-    barcode: string;
-    qrCode: string;
-  };
-  images: string[];
-  thumbnail: string;
-}
-
-interface Review {
-  rating: number;
-  comment: string;
-  date: string; // ISO date string
-  reviewerName: string;
-  reviewerEmail: string;
-}
-
-interface DeletedProduct extends ProductDetail {
-  isDeleted: Boolean;
-  deletedOn: string;
-}
-
-const fetchProductDetail = async (id: string | undefined) => {
-  return await axios.get<ProductDetail>(`/product/${id}`);
-};
-
-const deleteProduct = async (id: string | undefined) => {
-  return await axios.delete<DeletedProduct>(`product/${id}`);
-}
+import AddToCartForm from "../components/AddToCartForm";
+import QueryError from "../components/QueryError";
+import ProductGallery from "../components/ProductGallery";
+import useAuthGuard from "../hooks/useAuthGuard";
+import useUndoableDelete from "../hooks/useUndoableDelete";
+import { deleteProduct, fetchProduct, type Product } from "../api/products";
 
 const ProductDetailSkeleton = () => {
   return (
@@ -146,53 +95,52 @@ const ProductDetail = () => {
   const { id } = useParams();
   const getProductDetail = useQuery({
     queryKey: ["productDetail", id],
-    queryFn: () => fetchProductDetail(id),
+    queryFn: () => fetchProduct(id!),
   });
-  const product: ProductDetail | undefined = getProductDetail.data?.data;
+  const product: Product | undefined = getProductDetail.data;
+  // Cache cleanup after the delete is registered in utils/mutationDefaults
   const deleteProductMutation = useMutation({
-    mutationFn: () => deleteProduct(id),
-    onSuccess: () => {
-      navigate("/product", { replace: true });
-    }
+    mutationKey: ["products", "delete"],
+    mutationFn: (productId: number) => deleteProduct(productId),
+    meta: { successMessage: "Product deleted", errorMessage: "Couldn't delete product" },
+  });
+  // The product list hides the product while its undo window is open
+  const { scheduleDelete } = useUndoableDelete({
+    scope: "products",
+    label: "Product",
+    onDelete: (productId) => deleteProductMutation.mutateAsync(productId),
   });
   const navigate = useNavigate();
-  useEffect(() => {
-    if (deleteProductMutation.isSuccess) {
-      navigate("/product", {replace: true });
-    }
-  }, [deleteProductMutation.isSuccess, navigate]);
+  const guard = useAuthGuard();
   return (
     <>
-      {getProductDetail.isFetching || product == undefined ? (
+      {getProductDetail.isError ? (
+        <QueryError
+          error={getProductDetail.error}
+          resource="Product"
+          onRetry={getProductDetail.refetch}
+          isRetrying={getProductDetail.isFetching}
+          backTo={{ to: "/product", label: "Back to products" }}
+        />
+      ) : getProductDetail.isLoading || product == undefined ? (
         <ProductDetailSkeleton />
       ) : (
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 relative">
-          {deleteProductMutation.isPending && (
-            <div className="absolute inset-0 bg-white/50 backdrop-blur-sm z-10 flex items-center justify-center">
-            <div className="flex items-center bg-white/90 px-6 py-3 rounded-lg shadow-lg">
-            <span className="text-2xl mr-4 text-gray-800">Deleting...</span>
-            <svg
-              className="animate-spin h-5 w-5 text-gray-600" xmlns="http:///w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v0c5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-              </svg>
-              </div>
-              </div>
-          )}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
             {/* Product Image */}
             <div className="flex justify-center">
-              <img
-                src={product.thumbnail}
-                alt={product.title}
-                className="w-full max-w-lg rounded-lg shadow-lg"
+              <ProductGallery
+                key={product.id}
+                images={product.images.length > 0 ? product.images : [product.thumbnail]}
+                thumbnail={product.thumbnail}
+                title={product.title}
               />
             </div>
 
             {/* Product Details */}
             <div className="space-y-4">
               {/* Title */}
-              <h1 className="text-3xl font-bold text-gray-900">
+              <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
                 {product.title}
               </h1>
 
@@ -280,6 +228,9 @@ const ProductDetail = () => {
                   {product.minimumOrderQuantity}
                 </p>
               </div>
+
+              {/* Add to Cart */}
+              <AddToCartForm product={product} />
             </div>
           </div>
 
@@ -327,22 +278,19 @@ const ProductDetail = () => {
                   </button>
                   <div className="absolute bottom-14 right-0 bg-white rounded-lg shadow-lg w-32 hidden group-focus-within:block">
                     <button
-                      onClick={() => {
-                        // navigate("edit");
-                      }}
+                      onClick={() => navigate("edit")}
                       className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 focus:outline-none focus:bg-gray-100"
                     >
                       Edit
                     </button>
                     <button
                       className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 focus:outline-none focus:bg-gray-100"
-                      onClick={() => {
-                        if (
-                          confirm("Are you sure want to delete this product ? ")
-                        ) {
-                          deleteProductMutation.mutate();
-                        }
-                      }}
+                      onClick={() =>
+                        guard(() => {
+                          scheduleDelete(product.id);
+                          navigate("/product", { replace: true });
+                        })
+                      }
                     >
                       Delete
                     </button>
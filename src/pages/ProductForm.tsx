@@ -0,0 +1,540 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { FieldError, useFieldArray, useForm } from "react-hook-form";
+import { useNavigate, useParams } from "react-router-dom";
+import {
+  createProduct,
+  fetchProduct,
+  updateProduct,
+  type Product,
+  type Review,
+} from "../api/products";
+import useOnlineStatus from "../hooks/useOnlineStatus";
+import QueryError from "../components/QueryError";
+
+// useFieldArray needs objects, so string lists are wrapped while editing
+interface ProductFormValues
+  extends Omit<Product, "id" | "tags" | "images"> {
+  tags: { value: string }[];
+  images: { value: string }[];
+}
+
+const availabilityStatuses = ["In Stock", "Low Stock", "Out of Stock"];
+
+const emptyReview: Review = {
+  rating: 5,
+  comment: "",
+  date: new Date().toISOString(),
+  reviewerName: "",
+  reviewerEmail: "",
+};
+
+const emptyProduct = (): ProductFormValues => ({
+  title: "",
+  description: "",
+  category: "",
+  price: 0,
+  discountPercentage: 0,
+  rating: 0,
+  stock: 0,
+  tags: [],
+  brand: "",
+  sku: "",
+  weight: 0,
+  dimensions: { width: 0, height: 0, depth: 0 },
+  warrantyInformation: "",
+  shippingInformation: "",
+  availabilityStatus: "In Stock",
+  reviews: [],
+  returnPolicy: "",
+  minimumOrderQuantity: 1,
+  meta: {
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    barcode: "",
+    qrCode: "",
+  },
+  images: [],
+  thumbnail: "",
+});
+
+const toFormValues = ({ tags, images, ...product }: Product): ProductFormValues => ({
+  ...product,
+  tags: tags.map((value) => ({ value })),
+  images: images.map((value) => ({ value })),
+});
+
+const fromFormValues = ({ tags, images, ...values }: ProductFormValues): Omit<Product, "id"> => ({
+  ...values,
+  tags: tags.map((tag) => tag.value.trim()).filter(Boolean),
+  images: images.map((image) => image.value.trim()).filter(Boolean),
+});
+
+const isUrl = (value: string) => {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return "Must be a valid URL";
+  }
+};
+
+const isIsoDate = (value: string) =>
+  !Number.isNaN(Date.parse(value)) || "Must be a valid ISO date";
+
+const inputClassName = "border p-3 rounded-lg w-full";
+
+const Field = ({
+  label,
+  error,
+  children,
+}: {
+  label: string;
+  error?: FieldError;
+  children: React.ReactNode;
+}) => (
+  <label className="flex flex-col gap-1 text-sm text-gray-700">
+    {label}
+    {children}
+    {error && <span className="text-red-600">{error.message}</span>}
+  </label>
+);
+
+const ProductForm = () => {
+  const { id } = useParams();
+  const isEditing = id !== undefined;
+  const navigate = useNavigate();
+  const isOnline = useOnlineStatus();
+
+  const getProduct = useQuery({
+    queryKey: ["productDetail", id],
+    queryFn: () => fetchProduct(id!),
+    enabled: isEditing,
+  });
+  const product: Product | undefined = getProduct.data;
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<ProductFormValues>({ defaultValues: emptyProduct() });
+  const tagFields = useFieldArray({ control, name: "tags" });
+  const imageFields = useFieldArray({ control, name: "images" });
+  const reviewFields = useFieldArray({ control, name: "reviews" });
+
+  useEffect(() => {
+    if (product) {
+      reset(toFormValues(product));
+    }
+  }, [product, reset]);
+
+  // Cache updates for these mutation keys live in utils/mutationDefaults, so
+  // saves made offline are queued and replayed like any other write
+  const createMutation = useMutation({
+    mutationKey: ["products", "create"],
+    mutationFn: createProduct,
+    meta: { successMessage: "Product created", errorMessage: "Couldn't save product" },
+  });
+  const updateMutation = useMutation({
+    mutationKey: ["products", "update"],
+    mutationFn: updateProduct,
+    meta: { successMessage: "Product updated", errorMessage: "Couldn't save product" },
+  });
+  const saveMutation = isEditing ? updateMutation : createMutation;
+
+  const onSubmit = (values: ProductFormValues) => {
+    const product = fromFormValues(values);
+    const leave = () => navigate(isEditing ? `/product/${id}` : "/product", { replace: true });
+    if (isEditing) {
+      updateMutation.mutate({ ...product, id: Number(id) }, { onSuccess: leave });
+    } else {
+      createMutation.mutate(product, { onSuccess: leave });
+    }
+    // A save made offline waits in the queue, so there's nothing to wait for here
+    if (!isOnline) {
+      leave();
+    }
+  };
+
+  if (isEditing && getProduct.isLoading) {
+    return <p className="text-center text-gray-500 p-6">Loading...</p>;
+  }
+
+  if (isEditing && getProduct.isError) {
+    return (
+      <QueryError
+        error={getProduct.error}
+        resource="Product"
+        onRetry={getProduct.refetch}
+        isRetrying={getProduct.isFetching}
+        backTo={{ to: "/product", label: "Back to products" }}
+      />
+    );
+  }
+
+  const numberOptions = { valueAsNumber: true, required: "Required" };
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <h1 className="text-3xl font-bold text-gray-900 mb-6 dark:text-white">
+        {isEditing ? "Edit Product" : "New Product"}
+      </h1>
+
+      <form
+        onSubmit={handleSubmit(onSubmit)}
+        noValidate
+        className="flex flex-col gap-8 bg-white p-6 shadow-md rounded-lg"
+      >
+        {/* General */}
+        <section className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <h2 className="sm:col-span-2 text-xl font-bold">General</h2>
+          <div className="sm:col-span-2">
+            <Field label="Title" error={errors.title}>
+              <input
+                className={inputClassName}
+                {...register("title", {
+                  required: "Title is required",
+                  maxLength: { value: 120, message: "At most 120 characters" },
+                })}
+              />
+            </Field>
+          </div>
+          <div className="sm:col-span-2">
+            <Field label="Description" error={errors.description}>
+              <textarea
+                rows={4}
+                className={inputClassName}
+                {...register("description", { required: "Description is required" })}
+              />
+            </Field>
+          </div>
+          <Field label="Category" error={errors.category}>
+            <input
+              className={inputClassName}
+              {...register("category", {
+                required: "Category is required",
+                pattern: { value: /^[a-z0-9-]+$/, message: "Use a lowercase slug, e.g. home-decoration" },
+              })}
+            />
+          </Field>
+          <Field label="Brand" error={errors.brand}>
+            <input className={inputClassName} {...register("brand")} />
+          </Field>
+          <Field label="SKU" error={errors.sku}>
+            <input className={inputClassName} {...register("sku", { required: "SKU is required" })} />
+          </Field>
+          <Field label="Availability" error={errors.availabilityStatus}>
+            <select className={inputClassName} {...register("availabilityStatus")}>
+              {availabilityStatuses.map((status) => (
+                <option key={status} value={status}>
+                  {status}
+                </option>
+              ))}
+            </select>
+          </Field>
+        </section>
+
+        {/* Pricing and Stock */}
+        <section className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <h2 className="sm:col-span-3 text-xl font-bold">Pricing and Stock</h2>
+          <Field label="Price ($)" error={errors.price}>
+            <input
+              type="number"
+              step="0.01"
+              className={inputClassName}
+              {...register("price", { ...numberOptions, min: { value: 0, message: "Must be positive" } })}
+            />
+          </Field>
+          <Field label="Discount (%)" error={errors.discountPercentage}>
+            <input
+              type="number"
+              step="0.01"
+              className={inputClassName}
+              {...register("discountPercentage", {
+                ...numberOptions,
+                min: { value: 0, message: "At least 0" },
+                max: { value: 100, message: "At most 100" },
+              })}
+            />
+          </Field>
+          <Field label="Rating" error={errors.rating}>
+            <input
+              type="number"
+              step="0.01"
+              className={inputClassName}
+              {...register("rating", {
+                ...numberOptions,
+                min: { value: 0, message: "At least 0" },
+                max: { value: 5, message: "At most 5" },
+              })}
+            />
+          </Field>
+          <Field label="Stock" error={errors.stock}>
+            <input
+              type="number"
+              className={inputClassName}
+              {...register("stock", {
+                ...numberOptions,
+                min: { value: 0, message: "At least 0" },
+                validate: (value) => Number.isInteger(value) || "Must be a whole number",
+              })}
+            />
+          </Field>
+          <Field label="Minimum Order Quantity" error={errors.minimumOrderQuantity}>
+            <input
+              type="number"
+              className={inputClassName}
+              {...register("minimumOrderQuantity", {
+                ...numberOptions,
+                min: { value: 1, message: "At least 1" },
+                validate: (value) => Number.isInteger(value) || "Must be a whole number",
+              })}
+            />
+          </Field>
+        </section>
+
+        {/* Shipping */}
+        <section className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+          <h2 className="sm:col-span-4 text-xl font-bold">Shipping</h2>
+          <Field label="Weight (oz)" error={errors.weight}>
+            <input
+              type="number"
+              step="0.01"
+              className={inputClassName}
+              {...register("weight", { ...numberOptions, min: { value: 0, message: "Must be positive" } })}
+            />
+          </Field>
+          <Field label="Width (mm)" error={errors.dimensions?.width}>
+            <input
+              type="number"
+              step="0.01"
+              className={inputClassName}
+              {...register("dimensions.width", { ...numberOptions, min: { value: 0, message: "Must be positive" } })}
+            />
+          </Field>
+          <Field label="Height (mm)" error={errors.dimensions?.height}>
+            <input
+              type="number"
+              step="0.01"
+              className={inputClassName}
+              {...register("dimensions.height", { ...numberOptions, min: { value: 0, message: "Must be positive" } })}
+            />
+          </Field>
+          <Field label="Depth (mm)" error={errors.dimensions?.depth}>
+            <input
+              type="number"
+              step="0.01"
+              className={inputClassName}
+              {...register("dimensions.depth", { ...numberOptions, min: { value: 0, message: "Must be positive" } })}
+            />
+          </Field>
+          <div className="sm:col-span-2">
+            <Field label="Warranty Information" error={errors.warrantyInformation}>
+              <input className={inputClassName} {...register("warrantyInformation")} />
+            </Field>
+          </div>
+          <div className="sm:col-span-2">
+            <Field label="Shipping Information" error={errors.shippingInformation}>
+              <input className={inputClassName} {...register("shippingInformation")} />
+            </Field>
+          </div>
+          <div className="sm:col-span-4">
+            <Field label="Return Policy" error={errors.returnPolicy}>
+              <input className={inputClassName} {...register("returnPolicy")} />
+            </Field>
+          </div>
+        </section>
+
+        {/* Tags */}
+        <section className="flex flex-col gap-2">
+          <h2 className="text-xl font-bold">Tags</h2>
+          {tagFields.fields.map((field, index) => (
+            <div key={field.id} className="flex gap-2 items-start">
+              <div className="flex-1">
+                <Field label={`Tag ${index + 1}`} error={errors.tags?.[index]?.value}>
+                  <input
+                    className={inputClassName}
+                    {...register(`tags.${index}.value`, { required: "Tag cannot be empty" })}
+                  />
+                </Field>
+              </div>
+              <button
+                type="button"
+                onClick={() => tagFields.remove(index)}
+                className="mt-6 bg-gray-500 hover:bg-gray-600 text-white px-4 py-3 rounded-lg transition-all"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => tagFields.append({ value: "" })}
+            className="self-start bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-all"
+          >
+            Add Tag
+          </button>
+        </section>
+
+        {/* Images */}
+        <section className="flex flex-col gap-2">
+          <h2 className="text-xl font-bold">Images</h2>
+          <Field label="Thumbnail URL" error={errors.thumbnail}>
+            <input
+              type="url"
+              className={inputClassName}
+              {...register("thumbnail", { required: "Thumbnail is required", validate: isUrl })}
+            />
+          </Field>
+          {imageFields.fields.map((field, index) => (
+            <div key={field.id} className="flex gap-2 items-start">
+              <div className="flex-1">
+                <Field label={`Image ${index + 1}`} error={errors.images?.[index]?.value}>
+                  <input
+                    type="url"
+                    className={inputClassName}
+                    {...register(`images.${index}.value`, { required: "Image URL cannot be empty", validate: isUrl })}
+                  />
+                </Field>
+              </div>
+              <button
+                type="button"
+                onClick={() => imageFields.remove(index)}
+                className="mt-6 bg-gray-500 hover:bg-gray-600 text-white px-4 py-3 rounded-lg transition-all"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => imageFields.append({ value: "" })}
+            className="self-start bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-all"
+          >
+            Add Image
+          </button>
+        </section>
+
+        {/* Meta */}
+        <section className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <h2 className="sm:col-span-2 text-xl font-bold">Meta</h2>
+          <Field label="Created At" error={errors.meta?.createdAt}>
+            <input
+              className={inputClassName}
+              {...register("meta.createdAt", { required: "Required", validate: isIsoDate })}
+            />
+          </Field>
+          <Field label="Updated At" error={errors.meta?.updatedAt}>
+            <input
+              className={inputClassName}
+              {...register("meta.updatedAt", { required: "Required", validate: isIsoDate })}
+            />
+          </Field>
+          <Field label="Barcode" error={errors.meta?.barcode}>
+            <input
+              className={inputClassName}
+              {...register("meta.barcode", {
+                pattern: { value: /^\d{8,14}$/, message: "Must be 8 to 14 digits" },
+              })}
+            />
+          </Field>
+          <Field label="QR Code URL" error={errors.meta?.qrCode}>
+            <input
+              type="url"
+              className={inputClassName}
+              {...register("meta.qrCode", { validate: (value) => !value || isUrl(value) })}
+            />
+          </Field>
+        </section>
+
+        {/* Reviews */}
+        <section className="flex flex-col gap-4">
+          <h2 className="text-xl font-bold">Reviews</h2>
+          {reviewFields.fields.map((field, index) => (
+            <div key={field.id} className="grid grid-cols-1 sm:grid-cols-2 gap-4 bg-gray-100 p-4 rounded-lg">
+              <Field label="Reviewer Name" error={errors.reviews?.[index]?.reviewerName}>
+                <input
+                  className={inputClassName}
+                  {...register(`reviews.${index}.reviewerName`, { required: "Name is required" })}
+                />
+              </Field>
+              <Field label="Reviewer Email" error={errors.reviews?.[index]?.reviewerEmail}>
+                <input
+                  type="email"
+                  className={inputClassName}
+                  {...register(`reviews.${index}.reviewerEmail`, {
+                    required: "Email is required",
+                    pattern: { value: /^[^\s@]+@[^\s@]+\.[^\s@]+$/, message: "Must be a valid email" },
+                  })}
+                />
+              </Field>
+              <Field label="Rating" error={errors.reviews?.[index]?.rating}>
+                <input
+                  type="number"
+                  className={inputClassName}
+                  {...register(`reviews.${index}.rating`, {
+                    ...numberOptions,
+                    min: { value: 1, message: "At least 1" },
+                    max: { value: 5, message: "At most 5" },
+                  })}
+                />
+              </Field>
+              <Field label="Date" error={errors.reviews?.[index]?.date}>
+                <input
+                  className={inputClassName}
+                  {...register(`reviews.${index}.date`, { required: "Required", validate: isIsoDate })}
+                />
+              </Field>
+              <div className="sm:col-span-2">
+                <Field label="Comment" error={errors.reviews?.[index]?.comment}>
+                  <textarea
+                    className={inputClassName}
+                    {...register(`reviews.${index}.comment`, { required: "Comment is required" })}
+                  />
+                </Field>
+              </div>
+              <button
+                type="button"
+                onClick={() => reviewFields.remove(index)}
+                className="sm:col-span-2 justify-self-start bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-all"
+              >
+                Remove Review
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => reviewFields.append({ ...emptyReview, date: new Date().toISOString() })}
+            className="self-start bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-all"
+          >
+            Add Review
+          </button>
+        </section>
+
+        {saveMutation.isError && (
+          <p className="text-red-600">Saving the product failed, please try again.</p>
+        )}
+        <div className="flex justify-end gap-2">
+          <button
+            type="submit"
+            disabled={saveMutation.isPending}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-blue-300"
+          >
+            {saveMutation.isPending ? "Saving..." : isEditing ? "Save Changes" : "Create Product"}
+          </button>
+          <button
+            type="button"
+            onClick={() => navigate(-1)}
+            className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-all"
+          >
+            Cancel
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ProductForm;
@@ -0,0 +1,105 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import { fetchUser, type Address } from "../api/users";
+import useAuth from "../hooks/useAuth";
+import QueryError from "../components/QueryError";
+
+// Only the last four characters of card numbers and IBANs are ever shown
+const mask = (value: string) => `•••• ${value.replace(/\s/g, "").slice(-4)}`;
+
+const formatAddress = (address: Address) =>
+  `${address.address}, ${address.city}, ${address.stateCode} ${address.postalCode}, ${address.country}`;
+
+const DetailList = ({ title, details }: { title: string; details: [string, string][] }) => (
+  <section className="bg-white p-6 shadow-md rounded-lg">
+    <h2 className="text-xl font-bold mb-4">{title}</h2>
+    <dl className="grid grid-cols-1 sm:grid-cols-3 gap-x-4 gap-y-3 text-sm">
+      {details.map(([label, value]) => (
+        <div key={label} className="contents">
+          <dt className="font-medium text-gray-900">{label}</dt>
+          <dd className="sm:col-span-2 text-gray-600">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  </section>
+);
+
+const Profile = () => {
+  const { user: authUser } = useAuth();
+
+  const { data: user, isLoading, isError, error, refetch, isFetching } = useQuery({
+    queryKey: ["user", authUser?.id],
+    queryFn: () => fetchUser(authUser!.id),
+    enabled: authUser !== null,
+  });
+
+  if (isError) {
+    return (
+      <QueryError
+        error={error}
+        resource="Profile"
+        onRetry={refetch}
+        isRetrying={isFetching}
+      />
+    );
+  }
+
+  if (isLoading || user == undefined) {
+    return <p className="text-center text-gray-500 p-6">Loading...</p>;
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-6">
+        <img src={user.image} alt="" className="size-24 rounded-full bg-gray-200" />
+        <div className="flex-1">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            {user.firstName} {user.lastName}
+          </h1>
+          <p className="text-gray-500">
+            @{user.username} · {user.role}
+          </p>
+        </div>
+        <Link
+          to="/settings"
+          className="bg-yellow-500 hover:bg-yellow-600 text-white px-4 py-2 rounded-lg transition-all"
+        >
+          Edit
+        </Link>
+      </div>
+
+      <DetailList
+        title="Contact"
+        details={[
+          ["Email", user.email],
+          ["Phone", user.phone],
+          ["Birth date", new Date(user.birthDate).toLocaleDateString()],
+          ["Address", formatAddress(user.address)],
+        ]}
+      />
+
+      <DetailList
+        title="Company"
+        details={[
+          ["Name", user.company.name],
+          ["Title", user.company.title],
+          ["Department", user.company.department],
+          ["Address", formatAddress(user.company.address)],
+        ]}
+      />
+
+      <DetailList
+        title="Bank"
+        details={[
+          ["Card", `${user.bank.cardType} ${mask(user.bank.cardNumber)}`],
+          ["Expires", user.bank.cardExpire],
+          ["IBAN", mask(user.bank.iban)],
+          ["Currency", user.bank.currency],
+        ]}
+      />
+    </div>
+  );
+};
+
+export default Profile;
@@ -0,0 +1,217 @@
+import { ClockIcon, FireIcon, MinusIcon, PlusIcon, StarIcon } from "@heroicons/react/16/solid";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import {
+  deleteRecipe,
+  fetchRecipe,
+  updateRecipe,
+  type RecipeDifficulty,
+} from "../api/recipes";
+import useAuthGuard from "../hooks/useAuthGuard";
+import useUndoableDelete from "../hooks/useUndoableDelete";
+import QueryError from "../components/QueryError";
+import RecipeForm from "../components/RecipeForm";
+import AddToMealPlanForm from "../components/AddToMealPlanForm";
+import { scaleIngredient } from "../utils/ingredientScale";
+
+const difficultyClassNames: Record<RecipeDifficulty, string> = {
+  Easy: "bg-green-100 text-green-800",
+  Medium: "bg-yellow-100 text-yellow-800",
+  Hard: "bg-red-100 text-red-800",
+};
+
+const Badge = ({ className = "bg-gray-100 text-gray-700", children }: { className?: string; children: React.ReactNode }) => (
+  <span className={`inline-flex items-center gap-1 rounded-full px-3 py-1 text-xs font-medium ${className}`}>
+    {children}
+  </span>
+);
+
+const RecipeDetail = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const guard = useAuthGuard();
+  const [editing, setEditing] = useState<boolean>(false);
+  // null follows the recipe's own serving count
+  const [servings, setServings] = useState<number | null>(null);
+
+  const { data: recipe, isLoading, isError, error, refetch, isFetching } = useQuery({
+    queryKey: ["recipeDetail", id],
+    queryFn: () => fetchRecipe(id!),
+  });
+
+  // The detail cache is kept in step by utils/mutationDefaults
+  const updateMutation = useMutation({
+    mutationKey: ["recipes", "update"],
+    meta: { successMessage: "Recipe updated", errorMessage: "Couldn't update recipe" },
+    mutationFn: updateRecipe,
+  });
+
+  const deleteMutation = useMutation({
+    mutationKey: ["recipes", "delete"],
+    meta: { successMessage: "Recipe deleted", errorMessage: "Couldn't delete recipe" },
+    mutationFn: deleteRecipe,
+  });
+
+  const { scheduleDelete } = useUndoableDelete({
+    scope: "recipes",
+    label: "Recipe",
+    onDelete: (recipeId) => deleteMutation.mutateAsync(recipeId),
+  });
+
+  if (isError) {
+    return (
+      <QueryError
+        error={error}
+        resource="Recipe"
+        onRetry={refetch}
+        isRetrying={isFetching}
+        backTo={{ to: "/recipes", label: "Back to recipes" }}
+      />
+    );
+  }
+
+  if (isLoading || recipe == undefined) {
+    return <p className="text-center text-gray-500 p-6">Loading...</p>;
+  }
+
+  const currentServings = servings ?? recipe.servings;
+  const factor = currentServings / recipe.servings;
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-6">
+      {/* Header */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        {recipe.image && (
+          <img src={recipe.image} alt={recipe.name} className="w-full rounded-lg shadow-lg bg-gray-200" />
+        )}
+        <div className="space-y-4">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{recipe.name}</h1>
+          <div className="flex flex-wrap gap-2">
+            <Badge className={difficultyClassNames[recipe.difficulty]}>{recipe.difficulty}</Badge>
+            <Badge>
+              <ClockIcon aria-hidden="true" className="size-4" />
+              Prep {recipe.prepTimeMinutes} min
+            </Badge>
+            <Badge>
+              <ClockIcon aria-hidden="true" className="size-4" />
+              Cook {recipe.cookTimeMinutes} min
+            </Badge>
+            <Badge>
+              <FireIcon aria-hidden="true" className="size-4" />
+              {recipe.caloriesPerServing} kcal per serving
+            </Badge>
+            <Badge>{recipe.cuisine}</Badge>
+          </div>
+          <p className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-300">
+            <StarIcon aria-hidden="true" className="size-4 text-yellow-500" />
+            {recipe.rating.toFixed(1)} ({recipe.reviewCount} reviews)
+          </p>
+          {recipe.mealType.length > 0 && (
+            <p className="text-sm text-gray-600 dark:text-gray-300">{recipe.mealType.join(" · ")}</p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {recipe.tags.map((tag) => (
+              <span key={tag} className="rounded-md bg-blue-50 px-2 py-1 text-xs text-blue-700">
+                #{tag}
+              </span>
+            ))}
+          </div>
+          <AddToMealPlanForm recipe={recipe} servings={currentServings} />
+          <div className="flex gap-2">
+            <button
+              className="bg-yellow-500 hover:bg-yellow-600 text-white px-4 py-2 rounded-lg transition-all"
+              onClick={() => guard(() => setEditing(true))}
+            >
+              Edit
+            </button>
+            <button
+              className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg transition-all"
+              onClick={() =>
+                guard(() => {
+                  scheduleDelete(recipe.id);
+                  navigate("/recipes");
+                })
+              }
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Edit Form */}
+      {editing && (
+        <RecipeForm
+          recipe={recipe}
+          onSubmit={(values) => {
+            updateMutation.mutate({ ...recipe, ...values });
+            setServings(null);
+            setEditing(false);
+          }}
+          onCancel={() => setEditing(false)}
+        />
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {/* Ingredients */}
+        <section className="bg-white p-6 shadow-md rounded-lg">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-bold">Ingredients</h2>
+            <div className="flex items-center gap-2 text-sm">
+              <button
+                type="button"
+                disabled={currentServings <= 1}
+                onClick={() => setServings(currentServings - 1)}
+                className="rounded-md border p-1 text-gray-600 disabled:opacity-40"
+              >
+                <span className="sr-only">Fewer servings</span>
+                <MinusIcon aria-hidden="true" className="size-4" />
+              </button>
+              <span aria-live="polite">{currentServings} servings</span>
+              <button
+                type="button"
+                onClick={() => setServings(currentServings + 1)}
+                className="rounded-md border p-1 text-gray-600"
+              >
+                <span className="sr-only">More servings</span>
+                <PlusIcon aria-hidden="true" className="size-4" />
+              </button>
+            </div>
+          </div>
+          <ul className="list-disc pl-5 space-y-1 text-gray-600">
+            {recipe.ingredients.map((ingredient, index) => (
+              <li key={index}>{scaleIngredient(ingredient, factor)}</li>
+            ))}
+          </ul>
+          {servings !== null && servings !== recipe.servings && (
+            <button
+              type="button"
+              onClick={() => setServings(null)}
+              className="mt-4 text-sm text-blue-500 hover:underline"
+            >
+              Reset to {recipe.servings} servings
+            </button>
+          )}
+        </section>
+
+        {/* Steps */}
+        <section className="md:col-span-2 bg-white p-6 shadow-md rounded-lg">
+          <h2 className="text-xl font-bold mb-4">Steps</h2>
+          <ol className="space-y-3">
+            {recipe.instructions.map((step, index) => (
+              <li key={index} className="flex gap-3 text-gray-600">
+                <span className="flex size-6 shrink-0 items-center justify-center rounded-full bg-blue-500 text-xs font-bold text-white">
+                  {index + 1}
+                </span>
+                {step}
+              </li>
+            ))}
+          </ol>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default RecipeDetail;
@@ -1,170 +1,300 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { useState } from "react";
-import axios from "axios";
-
-interface Recipe {
-  id: number;
-  name: string;
-  ingredients: string[];
-  instructions: string;
-}
-
-// Fetch all recipes
-const fetchRecipes = async (): Promise<Recipe[]> => {
-  const res = await axios.get("https://dummyjson.com/recipes");
-  return res.data.recipes;
-};
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import type { AuthUser } from "../api/auth";
+import {
+  createRecipe,
+  deleteRecipe,
+  fetchRecipeCuisines,
+  fetchRecipeTags,
+  recipeDifficulties,
+  recipeMealTypes,
+  updateRecipe,
+  type Recipe,
+} from "../api/recipes";
+import usePaginatedList from "../hooks/usePaginatedList";
+import useAuthGuard from "../hooks/useAuthGuard";
+import usePendingIds from "../hooks/usePendingIds";
+import useUndoableDelete from "../hooks/useUndoableDelete";
+import Pagination from "../components/Pagination";
+import InfiniteScrollTrigger from "../components/InfiniteScrollTrigger";
+import ListModeToggle from "../components/ListModeToggle";
+import QueryError from "../components/QueryError";
+import RecipeForm, { type RecipeFormResult } from "../components/RecipeForm";
+import AddToMealPlanForm from "../components/AddToMealPlanForm";
+import { fetchFilteredRecipes, parseRecipeFilters } from "../utils/recipeFilters";
 
-// Create a new recipe
-const createRecipe = async (newRecipe: Omit<Recipe, "id">): Promise<Recipe> => {
-  const res = await axios.post("https://dummyjson.com/recipes/add", newRecipe);
-  return res.data;
-};
+const maxTimeOptions = [15, 30, 45, 60, 90];
 
-// Update an existing recipe
-const updateRecipe = async (recipe: Recipe): Promise<Recipe> => {
-  const res = await axios.put(`https://dummyjson.com/recipes/${recipe.id}`, {
-    name: recipe.name,
-    ingredients: recipe.ingredients,
-    instructions: recipe.instructions,
+const TagChips = ({ selected, onSelect }: { selected: string; onSelect: (tag: string) => void }) => {
+  const { data: tags } = useQuery({
+    queryKey: ["recipeTags"],
+    queryFn: fetchRecipeTags,
+    staleTime: Infinity,
   });
-  return res.data;
-};
 
-// Delete a recipe
-const deleteRecipe = async (id: number): Promise<void> => {
-  console.log(`Deleting recipe with ID: ${id}`);
-  await axios.delete(`https://dummyjson.com/recipes/${id}`);
+  const chipClassName = (active: boolean) =>
+    `rounded-full px-3 py-1 text-sm ${
+      active ? "bg-blue-500 text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+    }`;
+
+  return (
+    <div aria-label="Tags" role="group" className="flex flex-wrap gap-2 max-h-24 overflow-y-auto">
+      <button type="button" onClick={() => onSelect("")} className={chipClassName(selected === "")}>
+        All tags
+      </button>
+      {tags?.map((tag) => (
+        <button
+          key={tag}
+          type="button"
+          aria-pressed={selected === tag}
+          onClick={() => onSelect(selected === tag ? "" : tag)}
+          className={chipClassName(selected === tag)}
+        >
+          #{tag}
+        </button>
+      ))}
+    </div>
+  );
 };
 
 const Recipes = () => {
-  const queryClient = useQueryClient();
-  const [recipeForm, setRecipeForm] = useState<Omit<Recipe, "id"> | Recipe>({
-    id: 0, // Add id field to track updates
-    name: "",
-    ingredients: [],
-    instructions: "",
+  const guard = useAuthGuard();
+  const [editing, setEditing] = useState<Recipe | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parseRecipeFilters(searchParams);
+  const [searchInput, setSearchInput] = useState(filters.q ?? "");
+
+  // Keep the search box in step with back/forward navigation
+  useEffect(() => {
+    setSearchInput(filters.q ?? "");
+  }, [filters.q]);
+
+  const { data: cuisines } = useQuery({
+    queryKey: ["recipeCuisines"],
+    queryFn: fetchRecipeCuisines,
+    staleTime: Infinity,
   });
-  const [editing, setEditing] = useState<boolean>(false);
 
-  const { data: recipes, isLoading } = useQuery({
-    queryKey: ["recipes"],
-    queryFn: fetchRecipes,
+  const recipeList = usePaginatedList({
+    queryKey: ["recipes", filters],
+    listKey: "recipes",
+    fetchPage: (params) => fetchFilteredRecipes(filters, params),
   });
+  const hasFilters = Object.values(filters).some((value) => value !== undefined);
+
+  // Every filter change starts again from the first page
+  const updateFilters = (changes: Record<string, string>) => {
+    setSearchParams((params) => {
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value) {
+          params.set(key, value);
+        } else {
+          params.delete(key);
+        }
+      });
+      params.delete("page");
+      return params;
+    });
+  };
 
+  const clearFilters = () =>
+    updateFilters({ q: "", tag: "", mealType: "", difficulty: "", cuisine: "", maxTime: "" });
+  const isPending = usePendingIds(["recipes"]);
+
+  // Optimistic cache updates for these mutation keys live in utils/mutationDefaults
   const createMutation = useMutation({
+    mutationKey: ["recipes", "create"],
+    meta: { successMessage: "Recipe added", errorMessage: "Couldn't add recipe" },
     mutationFn: createRecipe,
-    onSuccess: (data) => {
-      queryClient.setQueryData(["recipes"], (old: Recipe[] | undefined) =>
-        old ? [...old, data] : [data]
-      );
-      console.log("Recipe added successfully!");
-    },
   });
 
   const updateMutation = useMutation({
+    mutationKey: ["recipes", "update"],
+    meta: { successMessage: "Recipe updated", errorMessage: "Couldn't update recipe" },
     mutationFn: updateRecipe,
-    onSuccess: (updatedRecipe) => {
-      queryClient.setQueryData(["recipes"], (old: Recipe[] | undefined) =>
-        old ? old.map((r) => (r.id === updatedRecipe.id ? updatedRecipe : r)) : []
-      );
-      setEditing(false);
-      setRecipeForm({ id: 0, name: "", ingredients: [], instructions: "" });
-      console.log("Recipe updated successfully!");
-    },
   });
 
   const deleteMutation = useMutation({
+    mutationKey: ["recipes", "delete"],
+    meta: { successMessage: "Recipe deleted", errorMessage: "Couldn't delete recipe" },
     mutationFn: deleteRecipe,
-    onSuccess: (_, id) => {
-      queryClient.setQueryData(["recipes"], (old: Recipe[] | undefined) =>
-        old ? old.filter((r) => r.id !== id) : []
-      );
-      console.log("Recipe deleted successfully!");
-    },
   });
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (editing && "id" in recipeForm) {
-      updateMutation.mutate(recipeForm as Recipe);
+  const { scheduleDelete, isScheduled } = useUndoableDelete({
+    scope: "recipes",
+    label: "Recipe",
+    onDelete: (id) => deleteMutation.mutateAsync(id),
+  });
+  const recipes = recipeList.items.filter((recipe) => !isScheduled(recipe.id));
+
+  const handleSubmit = (values: RecipeFormResult, user: AuthUser) => {
+    if (editing) {
+      updateMutation.mutate({ ...editing, ...values });
     } else {
-      createMutation.mutate({
-        name: recipeForm.name,
-        ingredients: recipeForm.ingredients,
-        instructions: recipeForm.instructions,
-      });
+      createMutation.mutate({ ...values, userId: user.id });
     }
-    setRecipeForm({ id: 0, name: "", ingredients: [], instructions: "" });
-    setEditing(false);
+    setEditing(null);
   };
 
   return (
     <div className="container mx-auto p-6">
-      <h1 className="text-3xl font-bold text-center mb-6">List of Recipes</h1>
+      <h1 className="text-3xl font-bold text-center mb-6 dark:text-white">List of Recipes</h1>
 
       {/* Recipe Form */}
-      <form onSubmit={handleSubmit} className="flex flex-col gap-4 mb-6 bg-white p-6 shadow-md rounded-lg">
-        <input
-          type="text"
-          placeholder="Name"
-          value={recipeForm.name}
-          onChange={(e) => setRecipeForm({ ...recipeForm, name: e.target.value })}
-          className="border p-3 rounded-lg"
+      <div className="mb-6">
+        <RecipeForm
+          key={editing?.id ?? "new"}
+          recipe={editing ?? undefined}
+          onSubmit={handleSubmit}
+          onCancel={editing ? () => setEditing(null) : undefined}
         />
-        <input
-          type="text"
-          placeholder="Ingredients (comma separated)"
-          value={recipeForm.ingredients.join(", ")}
-          onChange={(e) => setRecipeForm({ ...recipeForm, ingredients: e.target.value.split(", ") })}
-          className="border p-3 rounded-lg"
-        />
-        <textarea
-          placeholder="Instructions"
-          value={recipeForm.instructions}
-          onChange={(e) => setRecipeForm({ ...recipeForm, instructions: e.target.value })}
-          className="border p-3 rounded-lg"
-        />
-        <button type="submit" className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all">
-          {editing ? "Save Changes" : "Add Recipe"}
-        </button>
-        {editing && (
-          <button
-            type="button"
-            className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-all"
-            onClick={() => {
-              setEditing(false);
-              setRecipeForm({ id: 0, name: "", ingredients: [], instructions: "" });
-            }}
-          >
-            Cancel
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col gap-4 mb-6 bg-white p-6 shadow-md rounded-lg">
+        <form
+          role="search"
+          onSubmit={(e) => {
+            e.preventDefault();
+            updateFilters({ q: searchInput.trim() });
+          }}
+          className="flex gap-2"
+        >
+          <input
+            type="search"
+            placeholder="Search recipes..."
+            aria-label="Search recipes"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="flex-1 border p-2 rounded-lg"
+          />
+          <button type="submit" className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all">
+            Search
           </button>
-        )}
-      </form>
+        </form>
+        <TagChips selected={filters.tag ?? ""} onSelect={(tag) => updateFilters({ tag })} />
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <select
+            aria-label="Meal type"
+            value={filters.mealType ?? ""}
+            onChange={(e) => updateFilters({ mealType: e.target.value })}
+            className="border p-2 rounded-lg"
+          >
+            <option value="">Any meal</option>
+            {recipeMealTypes.map((mealType) => (
+              <option key={mealType} value={mealType}>
+                {mealType}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="Difficulty"
+            value={filters.difficulty ?? ""}
+            onChange={(e) => updateFilters({ difficulty: e.target.value })}
+            className="border p-2 rounded-lg"
+          >
+            <option value="">Any difficulty</option>
+            {recipeDifficulties.map((difficulty) => (
+              <option key={difficulty} value={difficulty}>
+                {difficulty}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="Cuisine"
+            value={filters.cuisine ?? ""}
+            onChange={(e) => updateFilters({ cuisine: e.target.value })}
+            className="border p-2 rounded-lg"
+          >
+            <option value="">Any cuisine</option>
+            {cuisines?.map((cuisine) => (
+              <option key={cuisine} value={cuisine}>
+                {cuisine}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="Maximum total time"
+            value={filters.maxTime ?? ""}
+            onChange={(e) => updateFilters({ maxTime: e.target.value })}
+            className="border p-2 rounded-lg"
+          >
+            <option value="">Any time</option>
+            {maxTimeOptions.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                Up to {minutes} min
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
 
       {/* Recipe List */}
-      {isLoading ? (
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-sm text-gray-500">
+          {hasFilters && !recipeList.isLoading && (
+            <>
+              {recipeList.total} matching recipes{" "}
+              <button type="button" onClick={clearFilters} className="text-blue-500 hover:underline">
+                Clear filters
+              </button>
+            </>
+          )}
+        </p>
+        <ListModeToggle mode={recipeList.mode} onChange={recipeList.setMode} />
+      </div>
+      {recipeList.isLoading ? (
         <p className="text-center text-gray-500">Loading...</p>
+      ) : recipeList.isError ? (
+        <QueryError
+          error={recipeList.error}
+          resource="Recipes"
+          onRetry={recipeList.refetch}
+          isRetrying={recipeList.isFetching}
+        />
+      ) : recipes.length === 0 ? (
+        <p className="text-center text-gray-500">No recipes found.</p>
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-6">
-          {recipes?.map((recipe) => (
-            <div key={recipe.id} className="bg-white p-6 rounded-lg shadow-md">
-              <h2 className="text-xl font-bold">{recipe.name}</h2>
+          {recipes.map((recipe) => (
+            <div
+              key={recipe.id}
+              aria-busy={isPending(recipe.id)}
+              className={`bg-white p-6 rounded-lg shadow-md transition-opacity ${isPending(recipe.id) ? "opacity-50" : ""}`}
+            >
+              {recipe.image && (
+                <img
+                  src={recipe.image}
+                  alt=""
+                  loading="lazy"
+                  className="mb-4 aspect-video w-full rounded-md bg-gray-200 object-cover"
+                />
+              )}
+              <h2 className="text-xl font-bold">
+                <Link to={`/recipes/${recipe.id}`} className="hover:underline">
+                  {recipe.name}
+                </Link>
+              </h2>
+              <p className="text-sm text-gray-500 mt-1">
+                {recipe.cuisine} · {recipe.difficulty} · {recipe.prepTimeMinutes + recipe.cookTimeMinutes} min
+              </p>
               <p className="text-gray-600 mt-2">Ingredients: {recipe.ingredients.join(", ")}</p>
-              <p className="text-gray-600 mt-2">Instructions: {recipe.instructions}</p>
+              <div className="mt-4">
+                <AddToMealPlanForm recipe={recipe} />
+              </div>
               <div className="flex mt-4 gap-2">
                 <button
-                  className="bg-yellow-500 hover:bg-yellow-600 text-white px-4 py-2 rounded-lg transition-all"
-                  onClick={() => {
-                    setRecipeForm(recipe);
-                    setEditing(true);
-                  }}
+                  disabled={isPending(recipe.id)}
+                  className="bg-yellow-500 hover:bg-yellow-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-yellow-300"
+                  onClick={() => guard(() => setEditing(recipe))}
                 >
                   Edit
                 </button>
                 <button
-                  className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg transition-all"
-                  onClick={() => deleteMutation.mutate(recipe.id)}
+                  disabled={isPending(recipe.id)}
+                  className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-red-300"
+                  onClick={() => guard(() => scheduleDelete(recipe.id))}
                 >
                   Delete
                 </button>
@@ -173,6 +303,21 @@ const Recipes = () => {
           ))}
         </div>
       )}
+      {recipeList.mode === "pages" ? (
+        <Pagination
+          page={recipeList.page}
+          pageCount={recipeList.pageCount}
+          pageSize={recipeList.pageSize}
+          total={recipeList.total}
+          onPageChange={recipeList.setPage}
+        />
+      ) : (
+        <InfiniteScrollTrigger
+          hasNextPage={recipeList.hasNextPage}
+          isFetchingNextPage={recipeList.isFetchingNextPage}
+          onLoadMore={recipeList.fetchNextPage}
+        />
+      )}
     </div>
   );
 };
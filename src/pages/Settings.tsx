@@ -0,0 +1,254 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { FieldError, useForm } from "react-hook-form";
+import type { AuthUser } from "../api/auth";
+import { fetchUser, updateUser, type Address, type User, type UserSummary } from "../api/users";
+import { PAGE_SIZE_OPTIONS, type Theme } from "../context/PreferencesContext";
+import useAuth from "../hooks/useAuth";
+import QueryError from "../components/QueryError";
+import usePreferences from "../hooks/usePreferences";
+import { replaceListItem } from "../utils/listCache";
+import { parseWordList } from "../utils/moderation";
+import { productSortOptions } from "../utils/productSort";
+
+interface ProfileFormValues extends Pick<User, "firstName" | "lastName" | "email" | "phone" | "image"> {
+  address: Pick<Address, "address" | "city" | "state" | "postalCode" | "country">;
+}
+
+const themes: { label: string; value: Theme }[] = [
+  { label: "Light", value: "light" },
+  { label: "Dark", value: "dark" },
+  { label: "System", value: "system" },
+];
+
+const toFormValues = ({ firstName, lastName, email, phone, image, address }: User): ProfileFormValues => ({
+  firstName,
+  lastName,
+  email,
+  phone,
+  image,
+  address: {
+    address: address.address,
+    city: address.city,
+    state: address.state,
+    postalCode: address.postalCode,
+    country: address.country,
+  },
+});
+
+const inputClassName = "border p-3 rounded-lg w-full";
+
+const Field = ({
+  label,
+  error,
+  children,
+}: {
+  label: string;
+  error?: FieldError;
+  children: React.ReactNode;
+}) => (
+  <label className="flex flex-col gap-1 text-sm text-gray-700">
+    {label}
+    {children}
+    {error && <span className="text-red-600">{error.message}</span>}
+  </label>
+);
+
+const Settings = () => {
+  const queryClient = useQueryClient();
+  const { user: authUser } = useAuth();
+  const { preferences, updatePreferences, resetPreferences } = usePreferences();
+
+  const { data: user, isLoading, isError, error, refetch, isFetching } = useQuery({
+    queryKey: ["user", authUser?.id],
+    queryFn: () => fetchUser(authUser!.id),
+    enabled: authUser !== null,
+  });
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isDirty },
+  } = useForm<ProfileFormValues>();
+
+  useEffect(() => {
+    if (user) {
+      reset(toFormValues(user));
+    }
+  }, [user, reset]);
+
+  const saveMutation = useMutation({
+    mutationFn: ({ address, ...values }: ProfileFormValues) =>
+      updateUser({ ...values, id: user!.id, address: { ...user!.address, ...address } }),
+    meta: { successMessage: "Profile updated", errorMessage: "Couldn't update profile" },
+    onSuccess: (saved) => {
+      queryClient.setQueryData<User>(["user", saved.id], saved);
+      queryClient.setQueryData<UserSummary>(["userSummary", saved.id], saved);
+      replaceListItem(queryClient, ["users"], "users", saved);
+      // Keep the Navbar avatar and name in step with the edited profile
+      queryClient.setQueryData<AuthUser>(["authUser"], (current) =>
+        current && {
+          ...current,
+          firstName: saved.firstName,
+          lastName: saved.lastName,
+          email: saved.email,
+          image: saved.image,
+        }
+      );
+    },
+  });
+
+  if (isError) {
+    return (
+      <QueryError
+        error={error}
+        resource="Profile"
+        onRetry={refetch}
+        isRetrying={isFetching}
+      />
+    );
+  }
+
+  if (isLoading || user == undefined) {
+    return <p className="text-center text-gray-500 p-6">Loading...</p>;
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-6">
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Settings</h1>
+
+      {/* Profile */}
+      <form
+        onSubmit={handleSubmit((values) => saveMutation.mutate(values))}
+        noValidate
+        className="grid grid-cols-1 sm:grid-cols-2 gap-4 bg-white p-6 shadow-md rounded-lg"
+      >
+        <h2 className="sm:col-span-2 text-xl font-bold">Profile</h2>
+        <Field label="First name" error={errors.firstName}>
+          <input className={inputClassName} {...register("firstName", { required: "First name is required" })} />
+        </Field>
+        <Field label="Last name" error={errors.lastName}>
+          <input className={inputClassName} {...register("lastName", { required: "Last name is required" })} />
+        </Field>
+        <Field label="Email" error={errors.email}>
+          <input
+            type="email"
+            className={inputClassName}
+            {...register("email", {
+              required: "Email is required",
+              pattern: { value: /^\S+@\S+\.\S+$/, message: "Must be a valid email" },
+            })}
+          />
+        </Field>
+        <Field label="Phone" error={errors.phone}>
+          <input type="tel" className={inputClassName} {...register("phone")} />
+        </Field>
+        <div className="sm:col-span-2">
+          <Field label="Avatar URL" error={errors.image}>
+            <input className={inputClassName} {...register("image")} />
+          </Field>
+        </div>
+        <div className="sm:col-span-2">
+          <Field label="Street address" error={errors.address?.address}>
+            <input className={inputClassName} {...register("address.address")} />
+          </Field>
+        </div>
+        <Field label="City" error={errors.address?.city}>
+          <input className={inputClassName} {...register("address.city")} />
+        </Field>
+        <Field label="State" error={errors.address?.state}>
+          <input className={inputClassName} {...register("address.state")} />
+        </Field>
+        <Field label="Postal code" error={errors.address?.postalCode}>
+          <input className={inputClassName} {...register("address.postalCode")} />
+        </Field>
+        <Field label="Country" error={errors.address?.country}>
+          <input className={inputClassName} {...register("address.country")} />
+        </Field>
+        <div className="sm:col-span-2 flex items-center justify-end gap-4">
+          {saveMutation.isSuccess && !isDirty && <p className="text-sm text-green-600">Profile saved.</p>}
+          {saveMutation.isError && <p className="text-sm text-red-600">Saving failed, please try again.</p>}
+          <button
+            type="submit"
+            disabled={saveMutation.isPending}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-blue-300"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Profile"}
+          </button>
+        </div>
+      </form>
+
+      {/* Preferences are saved on this device as soon as they change */}
+      <section className="grid grid-cols-1 sm:grid-cols-2 gap-4 bg-white p-6 shadow-md rounded-lg">
+        <h2 className="sm:col-span-2 text-xl font-bold">Preferences</h2>
+        <Field label="Items per page">
+          <select
+            value={preferences.pageSize}
+            onChange={(e) => updatePreferences({ pageSize: Number(e.target.value) })}
+            className={inputClassName}
+          >
+            {PAGE_SIZE_OPTIONS.map((size) => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </select>
+        </Field>
+        <Field label="Default product sort">
+          <select
+            value={preferences.defaultSort}
+            onChange={(e) => updatePreferences({ defaultSort: e.target.value })}
+            className={inputClassName}
+          >
+            {productSortOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </Field>
+        <fieldset className="sm:col-span-2">
+          <legend className="text-sm text-gray-700 mb-2">Theme</legend>
+          <div className="flex gap-6">
+            {themes.map((theme) => (
+              <label key={theme.value} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="radio"
+                  name="theme"
+                  value={theme.value}
+                  checked={preferences.theme === theme.value}
+                  onChange={() => updatePreferences({ theme: theme.value })}
+                />
+                {theme.label}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+        <div className="sm:col-span-2">
+          <Field label="Comment moderation words (one per line)">
+            {/* Saved on blur; keyed on the list so a reset shows the defaults */}
+            <textarea
+              key={preferences.moderationWords.join("\n")}
+              rows={5}
+              defaultValue={preferences.moderationWords.join("\n")}
+              onBlur={(e) => updatePreferences({ moderationWords: parseWordList(e.target.value) })}
+              className={inputClassName}
+            />
+          </Field>
+        </div>
+        <div className="sm:col-span-2 flex justify-end">
+          <button
+            type="button"
+            onClick={resetPreferences}
+            className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-all"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default Settings;
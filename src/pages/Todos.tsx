@@ -1,113 +1,303 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { BellAlertIcon } from "@heroicons/react/16/solid";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useState } from "react";
-import axios from "axios";
-
-// Define Todo Type
-interface Todo {
-  id: number;
-  todo: string;
-  completed: boolean;
-  userId: number;
-}
+import { useSearchParams } from "react-router-dom";
+import {
+  createTodo,
+  deleteTodo,
+  updateTodo,
+  type Todo,
+} from "../api/todos";
+import usePaginatedList from "../hooks/usePaginatedList";
+import useAuth from "../hooks/useAuth";
+import useAuthGuard from "../hooks/useAuthGuard";
+import usePendingIds from "../hooks/usePendingIds";
+import useUndoableDelete from "../hooks/useUndoableDelete";
+import useTodoMeta from "../hooks/useTodoMeta";
+import Pagination from "../components/Pagination";
+import InfiniteScrollTrigger from "../components/InfiniteScrollTrigger";
+import ListModeToggle from "../components/ListModeToggle";
+import QueryError from "../components/QueryError";
+import UserLink from "../components/UserLink";
+import TodoBoard from "../components/TodoBoard";
+import TodoViewToggle, { type TodoView } from "../components/TodoViewToggle";
+import { TODO_PRIORITIES, type BoardColumn, type TodoPriority } from "../context/TodoMetaContext";
+import { notifyBulkResult, runBulk } from "../utils/bulkActions";
+import { notify } from "../utils/notify";
+import { downloadFile } from "../utils/download";
+import { buildTodoCalendar } from "../utils/icalendar";
+import { dueStatus, formatDueDate, toDateTimeLocal, type DueStatus } from "../utils/todoSchedule";
+import {
+  fetchAllTodos,
+  fetchFilteredTodos,
+  parseTodoStatus,
+  todoStatuses,
+  type TodoFilters,
+} from "../utils/todoFilters";
 
-// Fetch all todos
-const fetchTodos = async (): Promise<Todo[]> => {
-  const res = await axios.get("https://dummyjson.com/todos");
-  return res.data.todos;
+const dueClassNames: Record<DueStatus, string> = {
+  overdue: "bg-red-100 text-red-800",
+  today: "bg-yellow-100 text-yellow-800",
+  upcoming: "bg-gray-100 text-gray-700",
 };
 
-// Create a new todo
-const createTodo = async (newTodo: Omit<Todo, "id">): Promise<Todo> => {
-  const res = await axios.post("https://dummyjson.com/todos/add", newTodo);
-  return res.data;
+const priorityClassNames: Record<TodoPriority, string> = {
+  high: "bg-red-50 text-red-700",
+  medium: "bg-yellow-50 text-yellow-700",
+  low: "bg-green-50 text-green-700",
 };
 
-// Update an existing todo
-const updateTodo = async ({ id, todo, completed }: Todo): Promise<Todo> => {
-  const res = await axios.put(`https://dummyjson.com/todos/${id}`, {
-    todo,
-    completed,
-  });
+const priorityLabel = (priority: TodoPriority) => TODO_PRIORITIES.find(({ value }) => value === priority)!.label;
 
-  return { id, todo: res.data.todo, completed: res.data.completed, userId: res.data.userId };
-};
+// The edit form's local fields, as the inputs hold them ("" when unset)
+interface EditSchedule {
+  dueDate: string;
+  priority: TodoPriority | "";
+  reminderAt: string;
+}
+
+const notificationsSupported = "Notification" in window;
+
+const TodoScheduleBadges = ({ todo }: { todo: Todo }) => {
+  const { todoMeta } = useTodoMeta();
+  const meta = todoMeta[todo.id];
+  const status = dueStatus(todo, meta);
+  if (!meta?.dueDate && !meta?.priority && !meta?.reminder) return null;
 
-// Delete a todo
-const deleteTodo = async (id: number): Promise<void> => {
-  await axios.delete(`https://dummyjson.com/todos/${id}`);
+  return (
+    <div className="flex flex-wrap gap-2 mb-2 text-xs">
+      {meta.dueDate && (
+        <span className={`rounded-full px-2 py-0.5 ${dueClassNames[status ?? "upcoming"]}`}>
+          {status === "overdue" ? "Overdue · " : "Due "}
+          {formatDueDate(meta.dueDate)}
+        </span>
+      )}
+      {meta.priority && (
+        <span className={`rounded-full px-2 py-0.5 ${priorityClassNames[meta.priority]}`}>
+          {priorityLabel(meta.priority)} priority
+        </span>
+      )}
+      {meta.reminder && !meta.reminder.fired && (
+        <span className="inline-flex items-center gap-1 rounded-full bg-blue-50 px-2 py-0.5 text-blue-700">
+          <BellAlertIcon aria-hidden="true" className="size-3" />
+          {new Date(meta.reminder.at).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })}
+        </span>
+      )}
+    </div>
+  );
 };
 
 const Todos = () => {
-  const queryClient = useQueryClient();
+  const guard = useAuthGuard();
   const [newTodo, setNewTodo] = useState<Omit<Todo, "id">>({
     todo: "",
     completed: false,
     userId: 1,
   });
   const [editTodo, setEditTodo] = useState<Todo | null>(null);
+  // The todo as the modal opened with, to tell edits the API needs from local ones
+  const [editOriginal, setEditOriginal] = useState<Todo | null>(null);
+  const [editSchedule, setEditSchedule] = useState<EditSchedule>({ dueDate: "", priority: "", reminderAt: "" });
+  const { todoMeta, updateTodoMeta } = useTodoMeta();
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | null>(
+    notificationsSupported ? Notification.permission : null
+  );
+
+  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const mineOnly = searchParams.get("mine") === "1" && user !== null;
+  const view: TodoView = searchParams.get("view") === "board" ? "board" : "grid";
+  const filters: TodoFilters = {
+    status: parseTodoStatus(searchParams.get("status")),
+    userId: mineOnly ? user.id : undefined,
+  };
 
   // Fetch Todos
-  const { data: todos, isLoading } = useQuery<Todo[]>({
-    queryKey: ["todos"],
-    queryFn: fetchTodos,
+  const todoList = usePaginatedList({
+    queryKey: ["todos", filters],
+    listKey: "todos",
+    fetchPage: (params) => fetchFilteredTodos(filters, params),
+  });
+
+  // Every todo in scope, for the progress header and "clear completed"
+  const { data: allTodos } = useQuery({
+    queryKey: ["todos", "all", { userId: filters.userId }],
+    queryFn: () => fetchAllTodos(filters.userId),
   });
+  const isPending = usePendingIds(["todos"]);
 
+  // Optimistic cache updates for these mutation keys live in utils/mutationDefaults
   // Create Todo Mutation
   const createMutation = useMutation({
+    mutationKey: ["todos", "create"],
+    meta: { successMessage: "Todo added", errorMessage: "Couldn't add todo" },
     mutationFn: createTodo,
-    onSuccess: (data) => {
-      // Update the cache with the new todo from the API
-      queryClient.setQueryData<Todo[]>(["todos"], (oldTodos = []) => [
-        data,
-        ...oldTodos,
-      ]);
-      // Reset form
-      setNewTodo({ todo: "", completed: false, userId: 1 });
-    },
-    onError: (error) => {
-      console.error("Failed to add todo:", error);
-    },
   });
 
   // Update Todo Mutation
   const updateMutation = useMutation({
+    mutationKey: ["todos", "update"],
+    meta: { successMessage: "Todo updated", errorMessage: "Couldn't update todo" },
     mutationFn: updateTodo,
-    onSuccess: (updatedTodo) => {
-      queryClient.setQueryData<Todo[]>(["todos"], (oldTodos) =>
-        oldTodos?.map((todo) => (todo.id === updatedTodo.id ? updatedTodo : todo)) || []
-      );
-      setEditTodo(null); // ✅ Close the modal properly
-    },
-    onError: (error) => {
-      console.error("Failed to update todo:", error);
-    },
   });
 
   // Delete Todo Mutation
   const deleteMutation = useMutation({
+    mutationKey: ["todos", "delete"],
+    meta: { successMessage: "Todo deleted", errorMessage: "Couldn't delete todo" },
     mutationFn: deleteTodo,
-    onSuccess: (_, deletedId) => {
-      queryClient.setQueryData<Todo[]>(["todos"], (oldTodos) =>
-        oldTodos?.filter((todo) => todo.id !== deletedId)
-      );
+  });
+
+  // Bulk actions report one summary instead of a notification per todo
+  const bulkUpdateMutation = useMutation({
+    mutationKey: ["todos", "update"],
+    meta: { silent: true },
+    mutationFn: updateTodo,
+  });
+
+  const bulkDeleteMutation = useMutation({
+    mutationKey: ["todos", "delete"],
+    meta: { silent: true },
+    mutationFn: deleteTodo,
+  });
+
+  const { scheduleDelete, scheduleDeleteMany, isScheduled } = useUndoableDelete({
+    scope: "todos",
+    label: "Todo",
+    onDelete: (id) => deleteMutation.mutateAsync(id),
+    onDeleteMany: async (ids) => {
+      const failures = await runBulk(ids, (id) => bulkDeleteMutation.mutateAsync(id));
+      notifyBulkResult({ total: ids.length, failures, noun: "todos", verb: "deleted", describe: (id) => `Todo #${id}` });
     },
   });
+  const todos = todoList.items.filter((todo) => !isScheduled(todo.id));
+  const selectableTodos = todos.filter((todo) => !isPending(todo.id));
+  const selectedTodos = selectableTodos.filter((todo) => selectedIds.includes(todo.id));
+  const allSelected = selectableTodos.length > 0 && selectedTodos.length === selectableTodos.length;
+
+  const scopeTodos = allTodos?.todos.filter((todo) => !isScheduled(todo.id)) ?? [];
+  const completedTodos = scopeTodos.filter((todo) => todo.completed);
+  const progress = scopeTodos.length > 0 ? Math.round((completedTodos.length / scopeTodos.length) * 100) : 0;
+  const overdueTodos = scopeTodos.filter((todo) => dueStatus(todo, todoMeta[todo.id]) === "overdue");
+  const dueTodayTodos = scopeTodos.filter((todo) => dueStatus(todo, todoMeta[todo.id]) === "today");
+  const datedTodos = scopeTodos.filter((todo) => todoMeta[todo.id]?.dueDate);
+
+  // Filter changes start again from the first page with nothing selected
+  const updateFilters = (changes: Record<string, string>) => {
+    setSelectedIds([]);
+    setSearchParams((params) => {
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value) {
+          params.set(key, value);
+        } else {
+          params.delete(key);
+        }
+      });
+      params.delete("page");
+      return params;
+    });
+  };
+
+  const setView = (nextView: TodoView) => {
+    setSelectedIds([]);
+    setSearchParams((params) => {
+      if (nextView === "board") {
+        params.set("view", nextView);
+      } else {
+        params.delete("view");
+      }
+      return params;
+    });
+  };
+
+  // The board's columns are local; only moves into or out of Done reach the API
+  const handleBoardMove = (todo: Todo, from: BoardColumn, to: BoardColumn) => {
+    if ((from === "done") !== (to === "done")) {
+      guard(() => updateMutation.mutate({ ...todo, completed: to === "done" }));
+    }
+  };
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds((ids) => (ids.includes(id) ? ids.filter((selectedId) => selectedId !== id) : [...ids, id]));
+  };
+
+  const updateCompletedMany = async (targets: Todo[], completed: boolean) => {
+    const failures = await runBulk(targets, (todo) => bulkUpdateMutation.mutateAsync({ ...todo, completed }));
+    notifyBulkResult({
+      total: targets.length,
+      failures,
+      noun: "todos",
+      verb: completed ? "completed" : "reopened",
+      describe: (todo) => `"${todo.todo}"`,
+    });
+  };
+
+  const setCompletedMany = (completed: boolean) => {
+    const targets = selectedTodos.filter((todo) => todo.completed !== completed);
+    guard(() => {
+      setSelectedIds([]);
+      void updateCompletedMany(targets, completed).catch((error: Error) =>
+        notify({ kind: "error", title: "Couldn't update the selected todos", message: error.message })
+      );
+    });
+  };
+
+  const deleteSelected = () => {
+    guard(() => {
+      scheduleDeleteMany(selectedTodos.map((todo) => todo.id));
+      setSelectedIds([]);
+    });
+  };
+
+  const openEdit = (todo: Todo) => {
+    const meta = todoMeta[todo.id];
+    setEditTodo(todo);
+    setEditOriginal(todo);
+    setEditSchedule({
+      dueDate: meta?.dueDate ?? "",
+      priority: meta?.priority ?? "",
+      reminderAt: meta?.reminder ? toDateTimeLocal(meta.reminder.at) : "",
+    });
+  };
+
+  // Due date, priority and reminder only live in this browser
+  const saveSchedule = (todo: Todo) => {
+    const { dueDate, priority, reminderAt } = editSchedule;
+    const current = todoMeta[todo.id]?.reminder;
+    const at = reminderAt ? new Date(reminderAt).toISOString() : undefined;
+    updateTodoMeta({
+      [todo.id]: {
+        dueDate: dueDate || undefined,
+        priority: priority || undefined,
+        // Moving a reminder arms it again
+        reminder: at ? { at, title: todo.todo, fired: current?.at === at && current.fired } : undefined,
+      },
+    });
+  };
+
+  const requestNotificationPermission = async () => {
+    setNotificationPermission(await Notification.requestPermission());
+  };
 
   // Toggle Todo Completion
   const toggleTodoCompletion = (todo: Todo) => {
-    updateMutation.mutate({ ...todo, completed: !todo.completed });
+    guard(() => updateMutation.mutate({ ...todo, completed: !todo.completed }));
   };
 
   const handleAddTodo = (e: React.FormEvent) => {
     e.preventDefault();
     if (newTodo.todo.trim()) {
-      createMutation.mutate(newTodo);
+      guard((user) => {
+        createMutation.mutate({ ...newTodo, userId: user.id });
+        setNewTodo({ todo: "", completed: false, userId: 1 });
+      });
     }
   };
 
   return (
     <div className="container mx-auto p-6">
-      <h1 className="text-3xl font-bold text-center mb-6">Todos</h1>
+      <h1 className="text-3xl font-bold text-center mb-6 dark:text-white">Todos</h1>
 
       {/* Create Todo Form */}
       <form
@@ -123,46 +313,235 @@ const Todos = () => {
         />
         <button
           type="submit"
-          disabled={createMutation.isPending}
-          className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-blue-300"
+          className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all"
         >
-          {createMutation.isPending ? "Adding..." : "Add Todo"}
+          Add Todo
         </button>
       </form>
 
+      {/* Progress */}
+      <div className="mb-6 bg-white p-6 shadow-md rounded-lg">
+        <div className="flex justify-between text-sm text-gray-700 mb-2">
+          <p>
+            {completedTodos.length} of {scopeTodos.length} {mineOnly ? "of your todos" : "todos"} completed
+          </p>
+          <p>{progress}%</p>
+        </div>
+        <div
+          role="progressbar"
+          aria-label="Completed todos"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={progress}
+          className="h-2 rounded-full bg-gray-200"
+        >
+          <div className="h-2 rounded-full bg-green-500 transition-all" style={{ width: `${progress}%` }}></div>
+        </div>
+      </div>
+
+      {/* Due Soon */}
+      {[
+        { title: "Overdue", items: overdueTodos, className: "border-red-500" },
+        { title: "Due today", items: dueTodayTodos, className: "border-yellow-500" },
+      ].map(
+        ({ title, items, className }) =>
+          items.length > 0 && (
+            <section key={title} className={`mb-6 bg-white p-6 shadow-md rounded-lg border-l-4 ${className}`}>
+              <h2 className="text-xl font-bold mb-2">
+                {title} <span className="text-sm font-normal text-gray-500">({items.length})</span>
+              </h2>
+              <ul className="divide-y divide-gray-100">
+                {items.map((todo) => {
+                  const meta = todoMeta[todo.id];
+                  return (
+                    <li key={todo.id} className="flex flex-wrap items-center gap-2 py-2 text-gray-600">
+                      <span className="flex-1">{todo.todo}</span>
+                      {meta?.priority && (
+                        <span className={`rounded-full px-2 py-0.5 text-xs ${priorityClassNames[meta.priority]}`}>
+                          {priorityLabel(meta.priority)}
+                        </span>
+                      )}
+                      {meta?.dueDate && <span className="text-xs text-gray-500">{formatDueDate(meta.dueDate)}</span>}
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          )
+      )}
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <div role="group" aria-label="Status" className="inline-flex rounded-lg shadow-sm">
+            {todoStatuses.map(({ value, label }) => (
+              <button
+                key={value}
+                type="button"
+                aria-pressed={filters.status === value}
+                onClick={() => updateFilters({ status: value === "all" ? "" : value })}
+                className={`px-3 py-2 text-sm font-medium border first:rounded-l-lg last:rounded-r-lg ${
+                  filters.status === value ? "bg-blue-500 text-white border-blue-500" : "bg-white text-gray-700 hover:bg-gray-50"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={mineOnly}
+              onChange={(e) => {
+                const mine = e.target.checked;
+                guard(() => updateFilters({ mine: mine ? "1" : "" }));
+              }}
+              className="w-4 h-4"
+            />
+            Mine only
+          </label>
+          <button
+            type="button"
+            disabled={completedTodos.length === 0}
+            onClick={() => guard(() => scheduleDeleteMany(completedTodos.map((todo) => todo.id)))}
+            className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-red-300"
+          >
+            Clear completed
+          </button>
+          <button
+            type="button"
+            disabled={datedTodos.length === 0}
+            onClick={() =>
+              downloadFile("todos.ics", buildTodoCalendar(datedTodos, todoMeta), "text/calendar")
+            }
+            className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-gray-300"
+          >
+            Export .ics
+          </button>
+          {notificationPermission === "default" && (
+            <button
+              type="button"
+              onClick={requestNotificationPermission}
+              className="text-sm text-blue-500 hover:underline"
+            >
+              Enable reminder notifications
+            </button>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <TodoViewToggle view={view} onChange={setView} />
+          <ListModeToggle mode={todoList.mode} onChange={todoList.setMode} />
+        </div>
+      </div>
+
+      {/* Bulk Actions */}
+      {view === "grid" && todos.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+          <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={() => setSelectedIds(allSelected ? [] : selectableTodos.map((todo) => todo.id))}
+              className="w-4 h-4"
+            />
+            {selectedTodos.length > 0 ? `${selectedTodos.length} selected` : "Select all"}
+          </label>
+          {selectedTodos.length > 0 && (
+            <>
+              <button
+                type="button"
+                disabled={selectedTodos.every((todo) => todo.completed)}
+                onClick={() => setCompletedMany(true)}
+                className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded-lg transition-all disabled:bg-blue-300"
+              >
+                Complete
+              </button>
+              <button
+                type="button"
+                disabled={selectedTodos.every((todo) => !todo.completed)}
+                onClick={() => setCompletedMany(false)}
+                className="bg-yellow-500 hover:bg-yellow-600 text-white px-3 py-1 rounded-lg transition-all disabled:bg-yellow-300"
+              >
+                Mark active
+              </button>
+              <button
+                type="button"
+                onClick={deleteSelected}
+                className="bg-red-500 hover:bg-red-600 text-white px-3 py-1 rounded-lg transition-all"
+              >
+                Delete
+              </button>
+              <button
+                type="button"
+                onClick={() => setSelectedIds([])}
+                className="bg-gray-500 hover:bg-gray-600 text-white px-3 py-1 rounded-lg transition-all"
+              >
+                Clear selection
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
       {/* List of Todos */}
-      {isLoading ? (
+      {todoList.isLoading ? (
         <p className="text-center text-gray-500">Loading...</p>
+      ) : todoList.isError ? (
+        <QueryError
+          error={todoList.error}
+          resource="Todos"
+          onRetry={todoList.refetch}
+          isRetrying={todoList.isFetching}
+        />
+      ) : view === "board" ? (
+        <TodoBoard todos={todos} isPending={isPending} onMove={handleBoardMove} />
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-6">
-          {todos?.map((todo) => (
-            <div key={todo.id} className="bg-white p-6 rounded-lg shadow-md">
+          {todos.map((todo) => (
+            <div
+              key={todo.id}
+              aria-busy={isPending(todo.id)}
+              className={`bg-white p-6 rounded-lg shadow-md transition-opacity ${isPending(todo.id) ? "opacity-50" : ""}`}
+            >
               <div className="flex items-center gap-2 mb-2">
                 <input
                   type="checkbox"
                   checked={todo.completed}
+                  disabled={isPending(todo.id)}
                   onChange={() => toggleTodoCompletion(todo)}
                   className="w-5 h-5"
                 />
-                <p className={`text-gray-600 ${todo.completed ? "line-through" : ""}`}>
+                <p className={`flex-1 text-gray-600 ${todo.completed ? "line-through" : ""}`}>
                   {todo.todo}
                 </p>
+                <input
+                  type="checkbox"
+                  aria-label={`Select "${todo.todo}"`}
+                  checked={selectedIds.includes(todo.id)}
+                  disabled={isPending(todo.id)}
+                  onChange={() => toggleSelected(todo.id)}
+                  className="w-4 h-4 self-start"
+                />
               </div>
               
-              <div className="text-sm text-gray-500 mb-4">
-                User ID: {todo.userId}
+              <TodoScheduleBadges todo={todo} />
+
+              <div className="mb-4">
+                <UserLink userId={todo.userId} />
               </div>
 
               <div className="flex mt-4 gap-2">
                 <button
-                  className="bg-yellow-500 hover:bg-yellow-600 text-white px-4 py-2 rounded-lg transition-all"
-                  onClick={() => setEditTodo(todo)}
+                  disabled={isPending(todo.id)}
+                  className="bg-yellow-500 hover:bg-yellow-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-yellow-300"
+                  onClick={() => guard(() => openEdit(todo))}
                 >
                   Edit
                 </button>
                 <button
-                  className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg transition-all"
-                  onClick={() => deleteMutation.mutate(todo.id)}
+                  disabled={isPending(todo.id)}
+                  className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg transition-all disabled:bg-red-300"
+                  onClick={() => guard(() => scheduleDelete(todo.id))}
                 >
                   Delete
                 </button>
@@ -171,6 +550,21 @@ const Todos = () => {
           ))}
         </div>
       )}
+      {todoList.mode === "pages" ? (
+        <Pagination
+          page={todoList.page}
+          pageCount={todoList.pageCount}
+          pageSize={todoList.pageSize}
+          total={todoList.total}
+          onPageChange={todoList.setPage}
+        />
+      ) : (
+        <InfiniteScrollTrigger
+          hasNextPage={todoList.hasNextPage}
+          isFetchingNextPage={todoList.isFetchingNextPage}
+          onLoadMore={todoList.fetchNextPage}
+        />
+      )}
 
       {/* Edit Todo Modal */}
       {editTodo && (
@@ -180,7 +574,12 @@ const Todos = () => {
             <form
               onSubmit={(e) => {
                 e.preventDefault();
-                updateMutation.mutate(editTodo);
+                // Schedule-only edits stay in this browser and skip the request
+                if (editTodo.todo !== editOriginal?.todo || editTodo.completed !== editOriginal.completed) {
+                  updateMutation.mutate(editTodo);
+                }
+                saveSchedule(editTodo);
+                setEditTodo(null);
               }}
               className="flex flex-col gap-4"
             >
@@ -200,6 +599,39 @@ const Todos = () => {
                 />
                 <label>Completed</label>
               </div>
+              <label className="flex flex-col gap-1 text-sm text-gray-700">
+                Due date
+                <input
+                  type="date"
+                  value={editSchedule.dueDate}
+                  onChange={(e) => setEditSchedule({ ...editSchedule, dueDate: e.target.value })}
+                  className="border p-3 rounded-lg"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-sm text-gray-700">
+                Priority
+                <select
+                  value={editSchedule.priority}
+                  onChange={(e) => setEditSchedule({ ...editSchedule, priority: e.target.value as TodoPriority | "" })}
+                  className="border p-3 rounded-lg"
+                >
+                  <option value="">None</option>
+                  {TODO_PRIORITIES.map(({ value, label }) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-sm text-gray-700">
+                Reminder
+                <input
+                  type="datetime-local"
+                  value={editSchedule.reminderAt}
+                  onChange={(e) => setEditSchedule({ ...editSchedule, reminderAt: e.target.value })}
+                  className="border p-3 rounded-lg"
+                />
+              </label>
               <div className="flex justify-end gap-2">
                 <button
                   type="submit"
@@ -0,0 +1,301 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import { fetchUser } from "../api/users";
+import { fetchUserPosts } from "../api/posts";
+import { fetchUserTodos } from "../api/todos";
+import { fetchUserCarts } from "../api/carts";
+import { fetchUserComments } from "../api/comments";
+import usePaginatedList from "../hooks/usePaginatedList";
+import Pagination from "../components/Pagination";
+import QueryError from "../components/QueryError";
+import Markdown from "../components/Markdown";
+
+type Tab = "posts" | "todos" | "carts" | "comments";
+
+const tabs: { value: Tab; label: string }[] = [
+  { value: "posts", label: "Posts" },
+  { value: "todos", label: "Todos" },
+  { value: "carts", label: "Carts" },
+  { value: "comments", label: "Comments" },
+];
+
+const UserPosts = ({ userId }: { userId: string }) => {
+  const postList = usePaginatedList({
+    queryKey: ["userPosts", userId],
+    listKey: "posts",
+    fetchPage: (params) => fetchUserPosts(userId, params),
+  });
+
+  if (postList.isLoading) {
+    return <p className="text-center text-gray-500">Loading...</p>;
+  }
+
+  if (postList.isError) {
+    return (
+      <QueryError
+        error={postList.error}
+        resource="Posts"
+        onRetry={postList.refetch}
+        isRetrying={postList.isFetching}
+      />
+    );
+  }
+
+  return (
+    <>
+      {postList.items.length === 0 && <p className="text-center text-gray-500">No posts yet.</p>}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+        {postList.items.map((post) => (
+          <div key={post.id} className="bg-white p-6 rounded-lg shadow-md">
+            <h3 className="text-xl font-bold">
+              <Link to={`/posts/${post.id}`} className="hover:text-blue-600 hover:underline">
+                {post.title}
+              </Link>
+            </h3>
+            <Markdown source={post.body} className="text-gray-600 mt-2 line-clamp-6" />
+            <p className="text-sm text-gray-500 mt-2">Tags: {post.tags.join(", ")}</p>
+            <p className="text-sm text-gray-500">Views: {post.views}</p>
+          </div>
+        ))}
+      </div>
+      <Pagination
+        page={postList.page}
+        pageCount={postList.pageCount}
+        pageSize={postList.pageSize}
+        total={postList.total}
+        onPageChange={postList.setPage}
+      />
+    </>
+  );
+};
+
+const UserTodos = ({ userId }: { userId: string }) => {
+  const todoList = usePaginatedList({
+    queryKey: ["userTodos", userId],
+    listKey: "todos",
+    fetchPage: (params) => fetchUserTodos(userId, params),
+  });
+
+  if (todoList.isLoading) {
+    return <p className="text-center text-gray-500">Loading...</p>;
+  }
+
+  if (todoList.isError) {
+    return (
+      <QueryError
+        error={todoList.error}
+        resource="Todos"
+        onRetry={todoList.refetch}
+        isRetrying={todoList.isFetching}
+      />
+    );
+  }
+
+  return (
+    <>
+      {todoList.items.length === 0 && <p className="text-center text-gray-500">No todos yet.</p>}
+      <ul className="bg-white rounded-lg shadow-md divide-y divide-gray-100">
+        {todoList.items.map((todo) => (
+          <li key={todo.id} className="flex items-center gap-2 p-4">
+            <input type="checkbox" checked={todo.completed} readOnly className="w-5 h-5" />
+            <p className={`text-gray-600 ${todo.completed ? "line-through" : ""}`}>{todo.todo}</p>
+          </li>
+        ))}
+      </ul>
+      <Pagination
+        page={todoList.page}
+        pageCount={todoList.pageCount}
+        pageSize={todoList.pageSize}
+        total={todoList.total}
+        onPageChange={todoList.setPage}
+      />
+    </>
+  );
+};
+
+const UserCarts = ({ userId }: { userId: string }) => {
+  const cartList = usePaginatedList({
+    queryKey: ["userCarts", userId],
+    listKey: "carts",
+    fetchPage: (params) => fetchUserCarts(userId, params),
+  });
+
+  if (cartList.isLoading) {
+    return <p className="text-center text-gray-500">Loading...</p>;
+  }
+
+  if (cartList.isError) {
+    return (
+      <QueryError
+        error={cartList.error}
+        resource="Carts"
+        onRetry={cartList.refetch}
+        isRetrying={cartList.isFetching}
+      />
+    );
+  }
+
+  return (
+    <>
+      {cartList.items.length === 0 && <p className="text-center text-gray-500">No carts yet.</p>}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+        {cartList.items.map((cart) => (
+          <Link
+            key={cart.id}
+            to={`/carts/${cart.id}`}
+            className="bg-white p-6 rounded-lg shadow-md hover:shadow-lg transition-all"
+          >
+            <h3 className="text-xl font-bold">Cart #{cart.id}</h3>
+            <p className="text-sm text-gray-500 mt-2">
+              {cart.totalProducts} products, {cart.totalQuantity} items
+            </p>
+            <p className="text-lg font-bold text-gray-900">${cart.discountedTotal.toFixed(2)}</p>
+          </Link>
+        ))}
+      </div>
+      <Pagination
+        page={cartList.page}
+        pageCount={cartList.pageCount}
+        pageSize={cartList.pageSize}
+        total={cartList.total}
+        onPageChange={cartList.setPage}
+      />
+    </>
+  );
+};
+
+const UserComments = ({ userId }: { userId: string }) => {
+  const commentList = usePaginatedList({
+    queryKey: ["userComments", userId],
+    listKey: "comments",
+    fetchPage: (params) => fetchUserComments(userId, params),
+  });
+
+  if (commentList.isLoading) {
+    return <p className="text-center text-gray-500">Loading...</p>;
+  }
+
+  if (commentList.isError) {
+    return (
+      <QueryError
+        error={commentList.error}
+        resource="Comments"
+        onRetry={commentList.refetch}
+        isRetrying={commentList.isFetching}
+      />
+    );
+  }
+
+  return (
+    <>
+      {commentList.items.length === 0 && <p className="text-center text-gray-500">No comments yet.</p>}
+      <ul className="bg-white rounded-lg shadow-md divide-y divide-gray-100">
+        {commentList.items.map((comment) => (
+          <li key={comment.id} className="p-4">
+            <p className="text-gray-600">{comment.body}</p>
+            <p className="text-sm text-gray-500 mt-1">
+              On{" "}
+              <Link to={`/posts/${comment.postId}`} className="text-blue-500 hover:underline">
+                post #{comment.postId}
+              </Link>{" "}
+              · {comment.likes} likes
+            </p>
+          </li>
+        ))}
+      </ul>
+      <Pagination
+        page={commentList.page}
+        pageCount={commentList.pageCount}
+        pageSize={commentList.pageSize}
+        total={commentList.total}
+        onPageChange={commentList.setPage}
+      />
+    </>
+  );
+};
+
+const UserDetail = () => {
+  const { id } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tab = tabs.find((t) => t.value === searchParams.get("tab"))?.value ?? "posts";
+
+  const { data: user, isLoading, isError, error, refetch, isFetching } = useQuery({
+    queryKey: ["user", Number(id)],
+    queryFn: () => fetchUser(id!),
+  });
+
+  // Each tab has its own list, so switching starts from the first page
+  const selectTab = (nextTab: Tab) => {
+    setSearchParams((params) => {
+      params.set("tab", nextTab);
+      params.delete("page");
+      params.delete("mode");
+      return params;
+    });
+  };
+
+  if (isError) {
+    return (
+      <QueryError
+        error={error}
+        resource="User"
+        onRetry={refetch}
+        isRetrying={isFetching}
+        backTo={{ to: "/users", label: "Back to users" }}
+      />
+    );
+  }
+
+  if (isLoading || user == undefined) {
+    return <p className="text-center text-gray-500 p-6">Loading...</p>;
+  }
+
+  return (
+    <div className="container mx-auto p-6">
+      {/* Header */}
+      <div className="flex items-center gap-6 mb-6">
+        <img src={user.image} alt="" className="size-24 rounded-full bg-gray-200" />
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            {user.firstName} {user.lastName}
+          </h1>
+          <p className="text-gray-500">
+            @{user.username} · {user.company.title}, {user.company.name}
+          </p>
+          <p className="text-gray-500">
+            {user.address.city}, {user.address.country}
+          </p>
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div role="tablist" className="flex gap-2 border-b border-gray-200 mb-6">
+        {tabs.map((t) => (
+          <button
+            key={t.value}
+            type="button"
+            role="tab"
+            aria-selected={tab === t.value}
+            onClick={() => selectTab(t.value)}
+            className={`px-4 py-2 text-sm font-medium -mb-px border-b-2 ${
+              tab === t.value
+                ? "border-blue-500 text-blue-600"
+                : "border-transparent text-gray-500 hover:text-gray-700"
+            }`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      <div role="tabpanel">
+        {tab === "posts" && <UserPosts userId={id!} />}
+        {tab === "todos" && <UserTodos userId={id!} />}
+        {tab === "carts" && <UserCarts userId={id!} />}
+        {tab === "comments" && <UserComments userId={id!} />}
+      </div>
+    </div>
+  );
+};
+
+export default UserDetail;
@@ -0,0 +1,75 @@
+import { Link } from "react-router-dom";
+import { fetchUsers } from "../api/users";
+import usePaginatedList from "../hooks/usePaginatedList";
+import Pagination from "../components/Pagination";
+import InfiniteScrollTrigger from "../components/InfiniteScrollTrigger";
+import ListModeToggle from "../components/ListModeToggle";
+import QueryError from "../components/QueryError";
+
+const Users = () => {
+  const userList = usePaginatedList({
+    queryKey: ["users"],
+    listKey: "users",
+    fetchPage: fetchUsers,
+  });
+  const users = userList.items;
+
+  return (
+    <div className="container mx-auto p-6">
+      <h1 className="text-3xl font-bold text-center mb-6 dark:text-white">Users</h1>
+
+      {/* List of Users */}
+      <div className="flex justify-end mb-4">
+        <ListModeToggle mode={userList.mode} onChange={userList.setMode} />
+      </div>
+      {userList.isLoading ? (
+        <p className="text-center text-gray-500">Loading...</p>
+      ) : userList.isError ? (
+        <QueryError
+          error={userList.error}
+          resource="Users"
+          onRetry={userList.refetch}
+          isRetrying={userList.isFetching}
+        />
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-6">
+          {users.map((user) => (
+            <Link
+              key={user.id}
+              to={`/users/${user.id}`}
+              className="bg-white p-6 rounded-lg shadow-md flex items-center gap-4 hover:shadow-lg transition-all"
+            >
+              <img src={user.image} alt="" className="size-16 rounded-full bg-gray-200" />
+              <div className="min-w-0">
+                <h2 className="text-xl font-bold truncate">
+                  {user.firstName} {user.lastName}
+                </h2>
+                <p className="text-sm text-gray-500 truncate">{user.email}</p>
+                <p className="text-sm text-gray-600 truncate">
+                  {user.company.title}, {user.company.name}
+                </p>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+      {userList.mode === "pages" ? (
+        <Pagination
+          page={userList.page}
+          pageCount={userList.pageCount}
+          pageSize={userList.pageSize}
+          total={userList.total}
+          onPageChange={userList.setPage}
+        />
+      ) : (
+        <InfiniteScrollTrigger
+          hasNextPage={userList.hasNextPage}
+          isFetchingNextPage={userList.isFetchingNextPage}
+          onLoadMore={userList.fetchNextPage}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Users;
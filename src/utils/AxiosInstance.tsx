@@ -1,11 +1,70 @@
-import axios from "axios";
+import axios, { type AxiosError, type InternalAxiosRequestConfig } from "axios";
+import type { AuthTokens } from "../api/auth";
+import { toApiError } from "../api/errors";
+import { expireSession, getAccessToken, getRefreshToken, setTokens } from "./authStorage";
+
+// Point the whole app at another DummyJSON-compatible server (staging, a
+// local mock) by setting VITE_API_BASE_URL in a .env file.
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || "https://dummyjson.com";
 
 const AxiosInstance = axios.create({
-  baseURL: "https://dummyjson.com",
+  baseURL: API_BASE_URL,
   
   headers: {
     "Content-Type": "application/json",
   }
 });
 
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  _retried?: boolean;
+}
+
+AxiosInstance.interceptors.request.use((config) => {
+  const accessToken = getAccessToken();
+  if (accessToken && !config.headers.Authorization) {
+    config.headers.Authorization = `Bearer ${accessToken}`;
+  }
+  return config;
+});
+
+// Requests that fail together while the token is expired share one refresh
+let pendingRefresh: Promise<string> | null = null;
+
+const refreshAccessToken = async () => {
+  // Uses plain axios so a rejected refresh doesn't loop through this interceptor
+  const res = await axios.post<AuthTokens>(`${API_BASE_URL}/auth/refresh`, {
+    refreshToken: getRefreshToken(),
+  });
+  setTokens(res.data);
+  return res.data.accessToken;
+};
+
+AxiosInstance.interceptors.response.use(undefined, async (error: AxiosError) => {
+  const config = error.config as RetriableRequestConfig | undefined;
+  if (
+    error.response?.status !== 401 ||
+    !config ||
+    config._retried ||
+    config.url === "/auth/login" ||
+    !getRefreshToken()
+  ) {
+    return Promise.reject(error);
+  }
+
+  config._retried = true;
+  try {
+    pendingRefresh ??= refreshAccessToken().finally(() => {
+      pendingRefresh = null;
+    });
+    config.headers.Authorization = `Bearer ${await pendingRefresh}`;
+    return AxiosInstance(config);
+  } catch {
+    expireSession();
+    return Promise.reject(error);
+  }
+});
+
+// Runs after the refresh above, so callers only ever see an ApiError
+AxiosInstance.interceptors.response.use(undefined, (error) => Promise.reject(toApiError(error)));
+
 export default AxiosInstance;
@@ -0,0 +1,36 @@
+import type { AuthTokens } from "../api/auth";
+
+const ACCESS_TOKEN_KEY = "accessToken";
+const REFRESH_TOKEN_KEY = "refreshToken";
+
+type SessionListener = () => void;
+
+const sessionExpiredListeners = new Set<SessionListener>();
+
+export const getAccessToken = () => localStorage.getItem(ACCESS_TOKEN_KEY);
+
+export const getRefreshToken = () => localStorage.getItem(REFRESH_TOKEN_KEY);
+
+export const setTokens = ({ accessToken, refreshToken }: AuthTokens) => {
+  localStorage.setItem(ACCESS_TOKEN_KEY, accessToken);
+  localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+};
+
+export const clearTokens = () => {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+};
+
+// Lets the auth provider hear about a session the API client had to drop
+// because the refresh token was rejected
+export const onSessionExpired = (listener: SessionListener) => {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+};
+
+export const expireSession = () => {
+  clearTokens();
+  sessionExpiredListeners.forEach((listener) => listener());
+};
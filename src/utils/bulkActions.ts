@@ -0,0 +1,38 @@
+import { toApiError, type ApiError } from "../api/errors";
+import { notify } from "./notify";
+
+export interface BulkFailure<T> {
+  item: T;
+  error: ApiError;
+}
+
+// Runs the action for every item without stopping at the first failure, and
+// returns the items that failed
+export const runBulk = async <T>(items: T[], action: (item: T) => Promise<unknown>) => {
+  const results = await Promise.allSettled(items.map((item) => action(item)));
+  return results.flatMap((result, index): BulkFailure<T>[] =>
+    result.status === "rejected" ? [{ item: items[index], error: toApiError(result.reason) }] : []
+  );
+};
+
+interface BulkReport<T> {
+  total: number;
+  failures: BulkFailure<T>[];
+  // e.g. "todos" and "completed" for "3 todos completed"
+  noun: string;
+  verb: string;
+  describe: (item: T) => string;
+}
+
+// One notification for the whole batch, listing each item that failed
+export const notifyBulkResult = <T>({ total, failures, noun, verb, describe }: BulkReport<T>) => {
+  if (failures.length === 0) {
+    notify({ kind: "success", title: `${total} ${noun} ${verb}` });
+    return;
+  }
+  notify({
+    kind: "error",
+    title: `${failures.length} of ${total} ${noun} couldn't be ${verb}`,
+    message: failures.map(({ item, error }) => `${describe(item)}: ${error.message}`).join("\n"),
+  });
+};
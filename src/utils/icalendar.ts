@@ -0,0 +1,82 @@
+import type { Todo } from "../api/todos";
+import type { TodoMeta, TodoPriority } from "../context/TodoMetaContext";
+import { localDateKey } from "./todoSchedule";
+
+// iCalendar priorities run from 1 (highest) to 9 (lowest)
+const icalPriority: Record<TodoPriority, number> = { high: 1, medium: 5, low: 9 };
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const formatDate = (dueDate: string) => dueDate.replace(/-/g, "");
+
+const formatDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const nextDay = (dueDate: string) => {
+  const date = new Date(`${dueDate}T00:00`);
+  date.setDate(date.getDate() + 1);
+  return formatDate(localDateKey(date));
+};
+
+const encoder = new TextEncoder();
+
+// Lines longer than 75 octets of UTF-8 are continued on the next line after a
+// space, which counts towards that line's 75. Splits fall between code points,
+// never inside a multi-byte character.
+const foldLine = (line: string) => {
+  const lines: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > 75) {
+      lines.push(current);
+      current = " ";
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  return [...lines, current].join("\r\n");
+};
+
+// One all-day event per todo with a due date, with its reminder as an alarm.
+// Events work in more calendar apps than VTODO entries do.
+export const buildTodoCalendar = (todos: Todo[], todoMeta: Record<number, TodoMeta>) => {
+  const stamp = formatDateTime(new Date());
+  const events = todos.flatMap((todo) => {
+    const meta = todoMeta[todo.id];
+    if (!meta?.dueDate) return [];
+    return [
+      "BEGIN:VEVENT",
+      `UID:todo-${todo.id}@dummyjson-todos`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDate(meta.dueDate)}`,
+      `DTEND;VALUE=DATE:${nextDay(meta.dueDate)}`,
+      `SUMMARY:${escapeText(todo.todo)}`,
+      ...(meta.priority ? [`PRIORITY:${icalPriority[meta.priority]}`] : []),
+      ...(meta.reminder
+        ? [
+            "BEGIN:VALARM",
+            "ACTION:DISPLAY",
+            `DESCRIPTION:${escapeText(todo.todo)}`,
+            `TRIGGER;VALUE=DATE-TIME:${formatDateTime(new Date(meta.reminder.at))}`,
+            "END:VALARM",
+          ]
+        : []),
+      "END:VEVENT",
+    ];
+  });
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//DummyJSON Todos//EN",
+    "CALSCALE:GREGORIAN",
+    ...events,
+    "END:VCALENDAR",
+    "",
+  ]
+    .map(foldLine)
+    .join("\r\n");
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import type { PlannedMeal } from "../context/MealPlanContext";
+import { parseIngredient, scaleIngredient } from "./ingredientScale";
+import { buildShoppingList } from "./shoppingList";
+
+describe("parseIngredient", () => {
+  it("doesn't read a word starting with \"to\" as a range", () => {
+    expect(parseIngredient("3 tomatoes")).toEqual({ amount: 3, name: "tomatoes" });
+    expect(parseIngredient("2 tortillas")).toEqual({ amount: 2, name: "tortillas" });
+  });
+
+  it("takes the upper bound of a range", () => {
+    expect(parseIngredient("1 to 2 cups flour")).toEqual({ amount: 2, name: "cups flour" });
+    expect(parseIngredient("2-3 eggs")).toEqual({ amount: 3, name: "eggs" });
+  });
+
+  it("keeps ingredients without an amount whole", () => {
+    expect(parseIngredient("Salt to taste")).toEqual({ amount: undefined, name: "Salt to taste" });
+  });
+});
+
+describe("scaleIngredient", () => {
+  it("scales single amounts and both ends of a range", () => {
+    expect(scaleIngredient("3 tomatoes", 2)).toBe("6 tomatoes");
+    expect(scaleIngredient("1 to 2 cups flour", 1.5)).toBe("1 1/2 to 3 cups flour");
+  });
+});
+
+describe("buildShoppingList", () => {
+  const meal = (name: string, ingredients: string[]): PlannedMeal => ({
+    id: name,
+    day: "Monday",
+    slot: "Dinner",
+    recipe: { id: 1, name, image: "", servings: 2, ingredients },
+    servings: 2,
+  });
+
+  it("groups ingredients under their full names", () => {
+    const items = buildShoppingList([
+      meal("Salsa", ["3 tomatoes", "2 tortillas"]),
+      meal("Tacos", ["2 tomatoes"]),
+    ]);
+    expect(items.map(({ label }) => label)).toEqual(["5 tomatoes", "2 tortillas"]);
+  });
+});
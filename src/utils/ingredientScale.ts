@@ -0,0 +1,65 @@
+// Leading amounts like "2", "1.5", "1/2", "1 1/2" or a range "2-3" or
+// "2 to 3". "to" has to be a word of its own, or "3 tomatoes" would read as a
+// range starting "3 to".
+const AMOUNT = String.raw`\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:\.\d+)?`;
+const QUANTITY = new RegExp(`^(${AMOUNT})(?:(\\s*-\\s*|\\s+to\\s+)(${AMOUNT}))?`);
+
+// Cookbook fractions, so scaled amounts read "1 1/2 cups" rather than "1.5 cups"
+const FRACTIONS: [number, string][] = [
+  [1 / 8, "1/8"],
+  [1 / 4, "1/4"],
+  [1 / 3, "1/3"],
+  [3 / 8, "3/8"],
+  [1 / 2, "1/2"],
+  [5 / 8, "5/8"],
+  [2 / 3, "2/3"],
+  [3 / 4, "3/4"],
+  [7 / 8, "7/8"],
+];
+
+const parseAmount = (amount: string) =>
+  amount
+    .split(/\s+/)
+    .map((part) => {
+      const [numerator, denominator] = part.split("/").map(Number);
+      return denominator ? numerator / denominator : numerator;
+    })
+    .reduce((sum, value) => sum + value, 0);
+
+export const formatAmount = (value: number) => {
+  let whole = Math.floor(value);
+  let rest = value - whole;
+  if (rest > 0.97) {
+    whole += 1;
+    rest = 0;
+  }
+  if (rest < 0.03) return String(whole);
+
+  const fraction = FRACTIONS.find(([fractionValue]) => Math.abs(fractionValue - rest) < 0.03);
+  if (!fraction) return String(Math.round(value * 100) / 100);
+  return whole > 0 ? `${whole} ${fraction[1]}` : fraction[1];
+};
+
+// Rescales the amount an ingredient starts with, e.g. "1/2 cup sugar" x3 is
+// "1 1/2 cup sugar". Ingredients without one ("Salt to taste") are unchanged.
+export const scaleIngredient = (ingredient: string, factor: number) => {
+  if (factor === 1) return ingredient;
+  return ingredient.replace(
+    QUANTITY,
+    (_match, from: string, separator: string | undefined, to: string | undefined) =>
+      formatAmount(parseAmount(from) * factor) +
+      (separator && to ? `${separator}${formatAmount(parseAmount(to) * factor)}` : "")
+  );
+};
+
+// Splits off the amount an ingredient starts with; a range counts as its
+// upper bound, so there's always enough
+export const parseIngredient = (ingredient: string) => {
+  const match = ingredient.match(QUANTITY);
+  if (!match) return { amount: undefined, name: ingredient.trim() };
+  const [quantity, from, , to] = match;
+  return {
+    amount: parseAmount(to ?? from),
+    name: ingredient.slice(quantity.length).trim(),
+  };
+};
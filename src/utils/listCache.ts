@@ -0,0 +1,95 @@
+import type { InfiniteData, QueryClient, QueryKey } from "@tanstack/react-query";
+import type { ListResponse } from "../api/types";
+
+type ListPage<K extends string, T> = ListResponse<K, T>;
+type ListData<K extends string, T> = ListPage<K, T> | InfiniteData<ListPage<K, T>>;
+
+// Whether the cached list with this key should contain the item, e.g. by
+// applying the filters in the key; lists are assumed to match without one
+export type ListMatcher<T> = (queryKey: QueryKey, item: T) => boolean;
+
+// Lists are cached per page (and per infinite list) under a shared prefix,
+// e.g. ["recipes", "page", { limit, skip }], so writes have to be applied to
+// every cached page rather than to a single query.
+const updateListPages = <K extends string, T>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  update: (page: ListPage<K, T>, index: number) => ListPage<K, T>,
+  includes: (queryKey: QueryKey) => boolean = () => true
+) => {
+  queryClient.setQueriesData<ListData<K, T>>({ queryKey, predicate: (query) => includes(query.queryKey) }, (old) => {
+    if (!old) return old;
+    if ("pages" in old && "pageParams" in old) {
+      return { ...old, pages: old.pages.map(update) };
+    }
+    const page = old as ListPage<K, T>;
+    return update(page, page.skip === 0 ? 0 : -1);
+  });
+};
+
+// Prepend a newly created item to the first page of every cached list it
+// belongs in
+export const addListItem = <K extends string, T>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  listKey: K,
+  item: T,
+  matches?: ListMatcher<T>
+) => {
+  updateListPages<K, T>(
+    queryClient,
+    queryKey,
+    (page, index) => ({
+      ...page,
+      [listKey]: index === 0 ? [item, ...page[listKey]] : page[listKey],
+      total: page.total + 1,
+    }),
+    matches && ((key) => matches(key, item))
+  );
+};
+
+// Replace an item in every cached list, optionally looking it up by a
+// different id (e.g. swapping an optimistic placeholder for the saved item).
+// Lists the edited item no longer belongs in drop it instead.
+export const replaceListItem = <K extends string, T extends { id: number }>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  listKey: K,
+  item: T,
+  id: number = item.id,
+  matches?: ListMatcher<T>
+) => {
+  updateListPages<K, T>(
+    queryClient,
+    queryKey,
+    (page) => ({
+      ...page,
+      [listKey]: page[listKey].map((current) => (current.id === id ? item : current)),
+    }),
+    matches && ((key) => matches(key, item))
+  );
+  if (matches) {
+    updateListPages<K, T>(
+      queryClient,
+      queryKey,
+      (page) =>
+        page[listKey].some((current) => current.id === id)
+          ? { ...page, [listKey]: page[listKey].filter((current) => current.id !== id), total: page.total - 1 }
+          : page,
+      (key) => !matches(key, item)
+    );
+  }
+};
+
+export const removeListItem = <K extends string, T extends { id: number }>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  listKey: K,
+  id: number
+) => {
+  updateListPages<K, T>(queryClient, queryKey, (page) => ({
+    ...page,
+    [listKey]: page[listKey].filter((current) => current.id !== id),
+    total: page.total - 1,
+  }));
+};
@@ -0,0 +1,16 @@
+import DOMPurify from "dompurify";
+import { marked } from "marked";
+
+// Links in rendered posts open in a new tab without access to this one
+DOMPurify.addHook("afterSanitizeAttributes", (node) => {
+  if (node.tagName === "A" && node.getAttribute("href")) {
+    node.setAttribute("target", "_blank");
+    node.setAttribute("rel", "noopener noreferrer");
+  }
+});
+
+// Post bodies are user content, so the HTML marked produces is sanitized
+// before it's ever put in the page
+export const renderMarkdown = (source: string) =>
+  DOMPurify.sanitize(marked.parse(source, { async: false, gfm: true, breaks: true }));
+
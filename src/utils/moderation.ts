@@ -0,0 +1,34 @@
+import type { Comment } from "../api/comments";
+
+const APPROVED_KEY = "approvedComments";
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// One word or phrase per line or comma, compared without case
+export const parseWordList = (text: string) =>
+  [...new Set(text.split(/[\n,]/).map((word) => word.trim().toLowerCase()).filter(Boolean))];
+
+// Whole-word matches only, so "hate" doesn't flag "whatever"
+export const wordListPattern = (words: string[]) =>
+  words.length > 0 ? new RegExp(`\\b(${words.map(escapeRegExp).join("|")})\\b`, "gi") : null;
+
+export const findFlaggedWords = (text: string, pattern: RegExp | null) =>
+  pattern ? [...new Set(text.match(pattern)?.map((word) => word.toLowerCase()))] : [];
+
+// Approvals remember the text that was approved, so editing a comment puts
+// it back in the queue if it still matches
+export type ApprovedComments = Record<number, string>;
+
+export const loadApprovedComments = (): ApprovedComments => {
+  try {
+    const stored = localStorage.getItem(APPROVED_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveApprovedComments = (approved: ApprovedComments) =>
+  localStorage.setItem(APPROVED_KEY, JSON.stringify(approved));
+
+export const isApproved = (comment: Comment, approved: ApprovedComments) => approved[comment.id] === comment.body;
@@ -0,0 +1,196 @@
+import type { QueryClient, QueryKey } from "@tanstack/react-query";
+import { createRecipe, deleteRecipe, updateRecipe, type NewRecipe, type Recipe } from "../api/recipes";
+import { createPost, deletePost, reactToPost, updatePost, type NewPost, type Post } from "../api/posts";
+import {
+  createComment,
+  deleteComment,
+  updateComment,
+  type Comment,
+  type CommentList,
+  type NewComment,
+} from "../api/comments";
+import { createTodo, deleteTodo, updateTodo, type Todo } from "../api/todos";
+import {
+  createProduct,
+  deleteProduct,
+  updateProduct,
+  type Product,
+  type ProductListParams,
+} from "../api/products";
+import { addListItem, removeListItem, replaceListItem, type ListMatcher } from "./listCache";
+import { optimisticAdd, optimisticRemove, optimisticReplace } from "./optimisticList";
+import { matchesFilters, type RecipeFilters } from "./recipeFilters";
+import { matchesPostFilters, type PostFilters } from "./postFilters";
+import { matchesTodoFilters, type TodoFilters } from "./todoFilters";
+
+// Resources whose writes can be queued while offline
+export const OFFLINE_RESOURCES = ["recipes", "posts", "comments", "todos", "products"];
+
+// The filters a list was cached under, e.g. ["recipes", filters, "page", ...];
+// keys without any, like ["comments", "page", ...], read as unfiltered
+const keyFilters = <F>(queryKey: QueryKey, position = 1): Partial<F> => {
+  const filters = queryKey[position];
+  return typeof filters === "object" && filters !== null ? (filters as Partial<F>) : {};
+};
+
+const recipeListMatches: ListMatcher<Recipe> = (queryKey, recipe) =>
+  matchesFilters(recipe, keyFilters<RecipeFilters>(queryKey));
+
+const postListMatches: ListMatcher<Post> = (queryKey, post) => matchesPostFilters(post, keyFilters<PostFilters>(queryKey));
+
+// ["todos", "all", { userId }] holds every todo in scope, whatever its status
+const todoListMatches: ListMatcher<Todo> = (queryKey, todo) => {
+  const { status = "all", userId } = keyFilters<TodoFilters>(queryKey, queryKey[1] === "all" ? 2 : 1);
+  return matchesTodoFilters(todo, { status, userId });
+};
+
+// Searches match the title and description, like DummyJSON's, and ignore the
+// category just as fetchProducts does
+const productListMatches: ListMatcher<Product> = (queryKey, product) => {
+  const { q, category } = keyFilters<ProductListParams>(queryKey);
+  return q
+    ? `${product.title} ${product.description}`.toLowerCase().includes(q.toLowerCase())
+    : !category || product.category === category;
+};
+
+// Mutations are configured by key rather than in the pages, because a queued
+// mutation restored after a reload has no component left to give it its
+// mutationFn and cache handlers
+export const registerMutationDefaults = (queryClient: QueryClient) => {
+  // Writes to the same resource run one at a time, so a queue built up while
+  // offline replays in the order it was made
+  OFFLINE_RESOURCES.forEach((resource) => {
+    queryClient.setMutationDefaults([resource], { scope: { id: resource } });
+  });
+
+  queryClient.setMutationDefaults(["recipes", "create"], {
+    mutationFn: createRecipe,
+    ...optimisticAdd(
+      queryClient,
+      ["recipes"],
+      "recipes",
+      (recipe: NewRecipe, id): Recipe => ({ ...recipe, id, rating: 0, reviewCount: 0 }),
+      recipeListMatches
+    ),
+  });
+  queryClient.setMutationDefaults(["recipes", "update"], {
+    mutationFn: updateRecipe,
+    ...optimisticReplace<"recipes", Recipe>(queryClient, ["recipes"], "recipes", recipeListMatches),
+    onSuccess: (recipe: Recipe) => {
+      queryClient.setQueryData<Recipe>(["recipeDetail", String(recipe.id)], recipe);
+    },
+  });
+  queryClient.setMutationDefaults(["recipes", "delete"], {
+    mutationFn: deleteRecipe,
+    ...optimisticRemove<"recipes", Recipe>(queryClient, ["recipes"], "recipes"),
+    onSuccess: (_: unknown, id: number) => {
+      queryClient.removeQueries({ queryKey: ["recipeDetail", String(id)] });
+    },
+  });
+
+  queryClient.setMutationDefaults(["posts", "create"], {
+    mutationFn: createPost,
+    ...optimisticAdd(
+      queryClient,
+      ["posts"],
+      "posts",
+      (post: NewPost, id): Post => ({ ...post, id, views: 0, reactions: { likes: 0, dislikes: 0 } }),
+      postListMatches
+    ),
+  });
+  queryClient.setMutationDefaults(["posts", "update"], {
+    mutationFn: (post: Post) => updatePost(post),
+    ...optimisticReplace<"posts", Post>(queryClient, ["posts"], "posts", postListMatches),
+  });
+  // Reactions also show on the post's own page, so its cache is updated and
+  // rolled back along with the lists
+  const replacePost = optimisticReplace<"posts", Post>(queryClient, ["posts"], "posts");
+  queryClient.setMutationDefaults(["posts", "react"], {
+    mutationFn: reactToPost,
+    ...replacePost,
+    onMutate: async (post: Post) => {
+      const detailKey = ["postDetail", String(post.id)];
+      await queryClient.cancelQueries({ queryKey: detailKey });
+      const detail = queryClient.getQueryData(detailKey);
+      const { snapshot } = await replacePost.onMutate(post);
+      queryClient.setQueryData<Post>(detailKey, (current) => current && { ...current, reactions: post.reactions });
+      snapshot.push([detailKey, detail]);
+      return { snapshot };
+    },
+    onSuccess: (post: Post) => {
+      queryClient.setQueryData<Post>(["postDetail", String(post.id)], post);
+    },
+  });
+  queryClient.setMutationDefaults(["posts", "delete"], {
+    mutationFn: deletePost,
+    ...optimisticRemove<"posts", Post>(queryClient, ["posts"], "posts"),
+  });
+
+  queryClient.setMutationDefaults(["comments", "create"], {
+    mutationFn: createComment,
+    ...optimisticAdd(queryClient, ["comments"], "comments", (comment: NewComment, id): Comment => ({
+      ...comment,
+      id,
+      likes: 0,
+    })),
+    // New comments go to the end of their post's thread too, including ones
+    // replayed after a reload with the post's page closed
+    onSuccess: (comment: Comment) => {
+      queryClient.setQueryData<CommentList>(
+        ["postComments", String(comment.postId)],
+        (old) => old && { ...old, comments: [...old.comments, comment], total: old.total + 1 }
+      );
+    },
+  });
+  queryClient.setMutationDefaults(["comments", "update"], {
+    mutationFn: updateComment,
+    ...optimisticReplace<"comments", Comment>(queryClient, ["comments"], "comments"),
+  });
+  queryClient.setMutationDefaults(["comments", "delete"], {
+    mutationFn: deleteComment,
+    ...optimisticRemove<"comments", Comment>(queryClient, ["comments"], "comments"),
+  });
+
+  queryClient.setMutationDefaults(["todos", "create"], {
+    mutationFn: createTodo,
+    ...optimisticAdd(
+      queryClient,
+      ["todos"],
+      "todos",
+      (todo: Omit<Todo, "id">, id) => ({ ...todo, id }),
+      todoListMatches
+    ),
+  });
+  queryClient.setMutationDefaults(["todos", "update"], {
+    mutationFn: updateTodo,
+    ...optimisticReplace<"todos", Todo>(queryClient, ["todos"], "todos", todoListMatches),
+  });
+  queryClient.setMutationDefaults(["todos", "delete"], {
+    mutationFn: deleteTodo,
+    ...optimisticRemove<"todos", Todo>(queryClient, ["todos"], "todos"),
+  });
+
+  // Products are saved from their own form page rather than in place, so the
+  // lists and detail page are updated once the server answers
+  queryClient.setMutationDefaults(["products", "create"], {
+    mutationFn: createProduct,
+    onSuccess: (product: Product) => {
+      addListItem(queryClient, ["productList"], "products", product, productListMatches);
+      queryClient.setQueryData<Product>(["productDetail", String(product.id)], product);
+    },
+  });
+  queryClient.setMutationDefaults(["products", "update"], {
+    mutationFn: updateProduct,
+    onSuccess: (product: Product) => {
+      replaceListItem(queryClient, ["productList"], "products", product, product.id, productListMatches);
+      queryClient.setQueryData<Product>(["productDetail", String(product.id)], product);
+    },
+  });
+  queryClient.setMutationDefaults(["products", "delete"], {
+    mutationFn: deleteProduct,
+    onSuccess: (_: unknown, id: number) => {
+      removeListItem<"products", Product>(queryClient, ["productList"], "products", id);
+      queryClient.removeQueries({ queryKey: ["productDetail", String(id)] });
+    },
+  });
+};
@@ -0,0 +1,44 @@
+export type NotificationKind = "success" | "error" | "reminder";
+
+export interface NotificationAction {
+  label: string;
+  onClick: () => void;
+}
+
+export interface NotificationInput {
+  kind: NotificationKind;
+  title: string;
+  message?: string;
+  // Toasts with an action (e.g. Undo) are only shown, not kept in history
+  action?: NotificationAction;
+  duration?: number;
+}
+
+type NotifyListener = (notification: NotificationInput) => void;
+
+const notifyListeners = new Set<NotifyListener>();
+
+// Lets code outside React (e.g. the query client's MutationCache) raise
+// notifications that the notifications provider turns into toasts and history
+export const onNotify = (listener: NotifyListener) => {
+  notifyListeners.add(listener);
+  return () => {
+    notifyListeners.delete(listener);
+  };
+};
+
+export const notify = (notification: NotificationInput) => {
+  notifyListeners.forEach((listener) => listener(notification));
+};
+
+// Messages a mutation can set through `meta` to describe its outcome
+declare module "@tanstack/react-query" {
+  interface Register {
+    mutationMeta: {
+      successMessage?: string;
+      errorMessage?: string;
+      // Set when the caller reports the outcome itself, e.g. a bulk action
+      silent?: boolean;
+    };
+  }
+}
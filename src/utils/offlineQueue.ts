@@ -0,0 +1,25 @@
+import type { MutationKey, QueryClient } from "@tanstack/react-query";
+import { ApiError } from "../api/errors";
+
+const CONFLICT_STATUSES = [404, 409, 412];
+
+// Mutations that had to wait for the network. When one of them fails once it
+// finally runs, the data most likely changed on the server in the meantime.
+const queuedMutations = new WeakSet<object>();
+
+export const trackQueuedMutations = (queryClient: QueryClient) =>
+  queryClient.getMutationCache().subscribe((event) => {
+    if (event.mutation?.state.isPaused) {
+      queuedMutations.add(event.mutation);
+    }
+  });
+
+export const isConflict = (mutation: object, error: unknown) =>
+  queuedMutations.has(mutation) &&
+  error instanceof ApiError &&
+  CONFLICT_STATUSES.includes(error.status ?? 0);
+
+// Only paused mutations that can be replayed without their page (i.e. with
+// a mutationFn from registerMutationDefaults) are persisted with the cache
+export const isReplayable = (queryClient: QueryClient, mutationKey: MutationKey | undefined) =>
+  mutationKey !== undefined && queryClient.getMutationDefaults(mutationKey).mutationFn !== undefined;
@@ -0,0 +1,89 @@
+import type { QueryClient, QueryKey } from "@tanstack/react-query";
+import { addListItem, removeListItem, replaceListItem, type ListMatcher } from "./listCache";
+
+type Snapshot = [QueryKey, unknown][];
+
+interface OptimisticContext {
+  snapshot: Snapshot;
+}
+
+// Stop in-flight fetches from overwriting the optimistic write, and keep a
+// copy of every cached page so it can be put back if the request fails
+const snapshotLists = async (queryClient: QueryClient, queryKey: QueryKey): Promise<Snapshot> => {
+  await queryClient.cancelQueries({ queryKey });
+  return queryClient.getQueriesData({ queryKey });
+};
+
+const rollback = (queryClient: QueryClient, context: OptimisticContext | undefined) => {
+  context?.snapshot.forEach(([key, data]) => queryClient.setQueryData<unknown>(key, data));
+};
+
+// Items created optimistically get a negative id until the server assigns one
+export const isOptimisticId = (id: number) => id < 0;
+
+let nextOptimisticId = -1;
+
+// Mutation callbacks that show a new item at the top of the list straight away.
+// `matches` keeps it out of filtered lists it doesn't belong in.
+export const optimisticAdd = <K extends string, T extends { id: number }, TVariables>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  listKey: K,
+  toItem: (variables: TVariables, id: number) => T,
+  matches?: ListMatcher<T>
+) => ({
+  onMutate: async (variables: TVariables) => {
+    const snapshot = await snapshotLists(queryClient, queryKey);
+    const id = nextOptimisticId--;
+    addListItem(queryClient, queryKey, listKey, toItem(variables, id), matches);
+    return { snapshot, id };
+  },
+  onError: (_error: Error, _variables: TVariables, context?: OptimisticContext) => {
+    rollback(queryClient, context);
+  },
+  onSettled: (saved: T | undefined, _error: Error | null, _variables: TVariables, context?: { id: number }) => {
+    if (saved && context) {
+      replaceListItem(queryClient, queryKey, listKey, saved, context.id, matches);
+    }
+  },
+});
+
+// Mutation callbacks that apply an edit to the cached lists straight away
+export const optimisticReplace = <K extends string, T extends { id: number }>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  listKey: K,
+  matches?: ListMatcher<T>
+) => ({
+  onMutate: async (item: T) => {
+    const snapshot = await snapshotLists(queryClient, queryKey);
+    replaceListItem(queryClient, queryKey, listKey, item, item.id, matches);
+    return { snapshot };
+  },
+  onError: (_error: Error, _item: T, context?: OptimisticContext) => {
+    rollback(queryClient, context);
+  },
+  // DummyJSON doesn't persist writes, so the server's echo is written back
+  // instead of invalidating and refetching the lists
+  onSettled: (saved: T | undefined) => {
+    if (saved) {
+      replaceListItem(queryClient, queryKey, listKey, saved, saved.id, matches);
+    }
+  },
+});
+
+// Mutation callbacks that take an item out of the cached lists straight away
+export const optimisticRemove = <K extends string, T extends { id: number }>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  listKey: K
+) => ({
+  onMutate: async (id: number) => {
+    const snapshot = await snapshotLists(queryClient, queryKey);
+    removeListItem<K, T>(queryClient, queryKey, listKey, id);
+    return { snapshot };
+  },
+  onError: (_error: Error, _id: number, context?: OptimisticContext) => {
+    rollback(queryClient, context);
+  },
+});
@@ -0,0 +1,55 @@
+import { fetchPosts, type Post, type PostList, type PostListParams } from "../api/posts";
+import type { ListParams } from "../api/types";
+
+export type PostSort = "newest" | "views" | "likes";
+
+export const postSortOptions: { label: string; value: PostSort | "" }[] = [
+  { label: "Default order", value: "" },
+  { label: "Newest", value: "newest" },
+  { label: "Most viewed", value: "views" },
+  { label: "Most liked", value: "likes" },
+];
+
+export interface PostFilters {
+  q?: string;
+  tag?: string;
+  sort?: PostSort;
+}
+
+export const parsePostFilters = (searchParams: URLSearchParams): PostFilters => ({
+  q: searchParams.get("q") || undefined,
+  tag: searchParams.get("tag") || undefined,
+  sort: postSortOptions.find(({ value }) => value && value === searchParams.get("sort"))?.value || undefined,
+});
+
+// Whether a post belongs in a list loaded with these filters; search covers
+// the title and body, like DummyJSON's
+export const matchesPostFilters = (post: Post, { q, tag }: PostFilters) =>
+  (!q || `${post.title} ${post.body}`.toLowerCase().includes(q.toLowerCase())) && (!tag || post.tags.includes(tag));
+
+// Sorts DummyJSON can apply itself
+const serverSorts: Partial<Record<PostSort, Pick<PostListParams, "sortBy" | "order">>> = {
+  newest: { sortBy: "id", order: "desc" },
+  views: { sortBy: "views", order: "desc" },
+};
+
+const byLikes = (a: Post, b: Post) => b.reactions.likes - a.reactions.likes || b.id - a.id;
+
+// Loads one page of posts. A search within a tag, or sorting by likes (a
+// nested field DummyJSON can't sort on), fetches the whole result and does
+// the rest here, so totals stay accurate.
+export const fetchFilteredPosts = async (
+  { q, tag, sort }: PostFilters,
+  { limit = 30, skip = 0 }: ListParams
+): Promise<PostList> => {
+  const sortParams = sort ? serverSorts[sort] : undefined;
+  if (!(q && tag) && (!sort || sortParams)) {
+    return fetchPosts({ q, tag, ...sortParams, limit, skip });
+  }
+  const all = await fetchPosts({ q, tag, ...sortParams, limit: 0 });
+  let posts = q && tag ? all.posts.filter((post) => post.tags.includes(tag)) : all.posts;
+  if (sort === "likes") {
+    posts = [...posts].sort(byLikes);
+  }
+  return { posts: posts.slice(skip, skip + limit), total: posts.length, skip, limit };
+};
@@ -0,0 +1,23 @@
+import type { ProductSortField } from "../api/products";
+
+// Sort choices are encoded as "field:order" so a single <select> and a single
+// stored preference can describe them; "" keeps DummyJSON's own ordering
+export const productSortOptions: { label: string; value: string }[] = [
+  { label: "Featured", value: "" },
+  { label: "Price: Low to High", value: "price:asc" },
+  { label: "Price: High to Low", value: "price:desc" },
+  { label: "Rating: High to Low", value: "rating:desc" },
+  { label: "Rating: Low to High", value: "rating:asc" },
+  { label: "Title: A to Z", value: "title:asc" },
+  { label: "Title: Z to A", value: "title:desc" },
+];
+
+const sortFields: ProductSortField[] = ["price", "rating", "title"];
+
+export const parseProductSort = (field: string | null, order: string | null) => {
+  const sortBy = sortFields.find((sortField) => sortField === field);
+  return {
+    sortBy,
+    order: sortBy ? (order === "desc" ? ("desc" as const) : ("asc" as const)) : undefined,
+  };
+};
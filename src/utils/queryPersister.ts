@@ -0,0 +1,16 @@
+import { del, get, set } from "idb-keyval";
+import type { PersistedClient, Persister } from "@tanstack/react-query-persist-client";
+
+const IDB_KEY = "reactQueryCache";
+
+// Keeps the dehydrated query cache (and any paused mutations) in IndexedDB,
+// which unlike localStorage can hold the larger list pages
+export const queryPersister: Persister = {
+  persistClient: async (client: PersistedClient) => {
+    await set(IDB_KEY, client);
+  },
+  restoreClient: async () => await get<PersistedClient>(IDB_KEY),
+  removeClient: async () => {
+    await del(IDB_KEY);
+  },
+};
@@ -0,0 +1,59 @@
+import {
+  fetchRecipes,
+  recipeDifficulties,
+  type Recipe,
+  type RecipeDifficulty,
+  type RecipeList,
+} from "../api/recipes";
+import type { ListParams } from "../api/types";
+
+export interface RecipeFilters {
+  q?: string;
+  tag?: string;
+  mealType?: string;
+  difficulty?: RecipeDifficulty;
+  cuisine?: string;
+  // Prep plus cook time, in minutes
+  maxTime?: number;
+}
+
+export const parseRecipeFilters = (searchParams: URLSearchParams): RecipeFilters => {
+  const maxTime = Number(searchParams.get("maxTime"));
+  return {
+    q: searchParams.get("q") || undefined,
+    tag: searchParams.get("tag") || undefined,
+    mealType: searchParams.get("mealType") || undefined,
+    difficulty: recipeDifficulties.find((difficulty) => difficulty === searchParams.get("difficulty")),
+    cuisine: searchParams.get("cuisine") || undefined,
+    maxTime: maxTime > 0 ? maxTime : undefined,
+  };
+};
+
+export const matchesFilters = (recipe: Recipe, { q, tag, mealType, difficulty, cuisine, maxTime }: RecipeFilters) =>
+  (!q || recipe.name.toLowerCase().includes(q.toLowerCase())) &&
+  (!tag || recipe.tags.includes(tag)) &&
+  (!mealType || recipe.mealType.includes(mealType)) &&
+  (!difficulty || recipe.difficulty === difficulty) &&
+  (!cuisine || recipe.cuisine === cuisine) &&
+  (!maxTime || recipe.prepTimeMinutes + recipe.cookTimeMinutes <= maxTime);
+
+// DummyJSON can only apply one of search, tag or meal type per request and
+// none of the other filters
+const needsClientFiltering = ({ q, tag, mealType, difficulty, cuisine, maxTime }: RecipeFilters) =>
+  [q, tag, mealType].filter(Boolean).length > 1 || Boolean(difficulty || cuisine || maxTime);
+
+// Loads one page of recipes matching every filter. When the server can't do
+// all the filtering, the whole result of the most specific endpoint is
+// fetched and filtered and paged here instead, so totals stay accurate.
+export const fetchFilteredRecipes = async (
+  filters: RecipeFilters,
+  { limit = 30, skip = 0 }: ListParams
+): Promise<RecipeList> => {
+  const { q, tag, mealType } = filters;
+  if (!needsClientFiltering(filters)) {
+    return fetchRecipes({ q, tag, mealType, limit, skip });
+  }
+  const all = await fetchRecipes({ q, tag, mealType, limit: 0 });
+  const recipes = all.recipes.filter((recipe) => matchesFilters(recipe, filters));
+  return { recipes: recipes.slice(skip, skip + limit), total: recipes.length, skip, limit };
+};
@@ -0,0 +1,57 @@
+// Deletes waiting out their undo window, keyed by "<scope>:<id>". The store
+// lives outside React so a delete still goes out, and the item stays hidden,
+// when the page that started it unmounts (e.g. leaving a detail page).
+const scheduledDeletes = new Map<string, ReturnType<typeof setTimeout>>();
+const listeners = new Set<() => void>();
+let snapshot = new Set<string>();
+
+const emitChange = () => {
+  snapshot = new Set(scheduledDeletes.keys());
+  listeners.forEach((listener) => listener());
+};
+
+export const scheduledDeleteKey = (scope: string, id: number) => `${scope}:${id}`;
+
+export const subscribeScheduledDeletes = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getScheduledDeletes = () => snapshot;
+
+// Schedules deletes that share one timer, e.g. a bulk delete with a single
+// undo. Keys that are already scheduled are skipped; returns the ones added.
+export const scheduleDeletes = (keys: string[], delay: number, onDelete: () => Promise<unknown>) => {
+  const added = keys.filter((key) => !scheduledDeletes.has(key));
+  if (added.length === 0) return added;
+
+  const timer = setTimeout(() => {
+    // Stay hidden until the request settles; a failed delete is rolled
+    // back into the lists and reported
+    onDelete()
+      .catch(() => undefined)
+      .finally(() => {
+        added.forEach((key) => scheduledDeletes.delete(key));
+        emitChange();
+      });
+  }, delay);
+  added.forEach((key) => scheduledDeletes.set(key, timer));
+  emitChange();
+  return added;
+};
+
+// Returns false when the item is already scheduled
+export const scheduleDelete = (key: string, delay: number, onDelete: () => Promise<unknown>) =>
+  scheduleDeletes([key], delay, onDelete).length > 0;
+
+export const cancelScheduledDeletes = (keys: string[]) => {
+  keys.forEach((key) => {
+    clearTimeout(scheduledDeletes.get(key));
+    scheduledDeletes.delete(key);
+  });
+  emitChange();
+};
+
+export const cancelScheduledDelete = (key: string) => cancelScheduledDeletes([key]);
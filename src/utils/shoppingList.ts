@@ -0,0 +1,53 @@
+import type { PlannedMeal } from "../context/MealPlanContext";
+import { formatAmount, parseIngredient } from "./ingredientScale";
+
+export interface ShoppingListItem {
+  // Normalized ingredient name, shared by every meal that needs it
+  key: string;
+  label: string;
+  recipes: string[];
+}
+
+export type ShoppingListFormat = "text" | "markdown";
+
+// One line per ingredient across the whole plan, with amounts scaled to each
+// meal's servings and added up
+export const buildShoppingList = (meals: PlannedMeal[]): ShoppingListItem[] => {
+  const items = new Map<string, { name: string; amount: number; recipes: Set<string> }>();
+
+  meals.forEach((meal) => {
+    const factor = meal.servings / meal.recipe.servings;
+    meal.recipe.ingredients.forEach((ingredient) => {
+      const { amount, name } = parseIngredient(ingredient);
+      const key = name.toLowerCase().replace(/\s+/g, " ");
+      const item = items.get(key) ?? { name, amount: 0, recipes: new Set<string>() };
+      item.amount += (amount ?? 0) * factor;
+      item.recipes.add(meal.recipe.name);
+      items.set(key, item);
+    });
+  });
+
+  return [...items]
+    .map(([key, item]) => ({
+      key,
+      label: item.amount > 0 ? `${formatAmount(item.amount)} ${item.name}` : item.name,
+      recipes: [...item.recipes],
+    }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+};
+
+export const formatShoppingList = (
+  items: ShoppingListItem[],
+  checkedItems: string[],
+  format: ShoppingListFormat
+) => {
+  const lines = items.map((item) => {
+    const checked = checkedItems.includes(item.key);
+    const recipes = item.recipes.join(", ");
+    return format === "markdown"
+      ? `- [${checked ? "x" : " "}] ${item.label} _(${recipes})_`
+      : `[${checked ? "x" : " "}] ${item.label} (${recipes})`;
+  });
+  const title = format === "markdown" ? "# Shopping list" : "Shopping list";
+  return [title, "", ...lines, ""].join("\n");
+};
@@ -0,0 +1,35 @@
+import type { Todo } from "../api/todos";
+import { BOARD_COLUMNS, type BoardColumn, type TodoMeta } from "../context/TodoMetaContext";
+
+// Todo ids per column, in display order
+export type BoardLayout = Record<BoardColumn, number[]>;
+
+// `completed` from the API wins over the local column, so a todo completed
+// elsewhere (or a failed sync) lands in the right place
+export const todoColumn = (todo: Todo, meta: TodoMeta | undefined): BoardColumn => {
+  if (todo.completed) return "done";
+  return meta?.column === "inProgress" ? "inProgress" : "backlog";
+};
+
+export const buildBoardLayout = (todos: Todo[], todoMeta: Record<number, TodoMeta>): BoardLayout => {
+  const layout: BoardLayout = { backlog: [], inProgress: [], done: [] };
+  [...todos]
+    .sort((a, b) => (todoMeta[a.id]?.order ?? Infinity) - (todoMeta[b.id]?.order ?? Infinity) || a.id - b.id)
+    .forEach((todo) => layout[todoColumn(todo, todoMeta[todo.id])].push(todo.id));
+  return layout;
+};
+
+export const findCard = (layout: BoardLayout, id: number) => {
+  const column = BOARD_COLUMNS.find(({ value }) => layout[value].includes(id))!.value;
+  return { column, index: layout[column].indexOf(id) };
+};
+
+// Moves a card to `index` in `column`, clamped to the column's length
+export const moveCard = (layout: BoardLayout, id: number, column: BoardColumn, index: number): BoardLayout => {
+  const next = Object.fromEntries(
+    BOARD_COLUMNS.map(({ value }) => [value, layout[value].filter((cardId) => cardId !== id)])
+  ) as BoardLayout;
+  const position = Math.max(0, Math.min(index, next[column].length));
+  next[column] = [...next[column].slice(0, position), id, ...next[column].slice(position)];
+  return next;
+};
@@ -0,0 +1,40 @@
+import { fetchTodos, fetchUserTodos, type Todo, type TodoList } from "../api/todos";
+import type { ListParams } from "../api/types";
+
+export type TodoStatus = "all" | "active" | "completed";
+
+export const todoStatuses: { value: TodoStatus; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "active", label: "Active" },
+  { value: "completed", label: "Completed" },
+];
+
+export interface TodoFilters {
+  status: TodoStatus;
+  // Only this user's todos, from /todos/user/:id
+  userId?: number;
+}
+
+export const parseTodoStatus = (value: string | null): TodoStatus =>
+  todoStatuses.find((status) => status.value === value)?.value ?? "all";
+
+export const matchesTodoFilters = (todo: Todo, { status, userId }: TodoFilters) =>
+  (status === "all" || todo.completed === (status === "completed")) && (!userId || todo.userId === userId);
+
+// Every todo in scope, for counts and actions that span all pages
+export const fetchAllTodos = (userId?: number): Promise<TodoList> =>
+  userId ? fetchUserTodos(userId, { limit: 0 }) : fetchTodos({ limit: 0 });
+
+// DummyJSON can't filter by completion, so a status filter is applied to
+// the whole scope here and the result paged locally
+export const fetchFilteredTodos = async (
+  { status, userId }: TodoFilters,
+  { limit = 30, skip = 0 }: ListParams
+): Promise<TodoList> => {
+  if (status === "all") {
+    return userId ? fetchUserTodos(userId, { limit, skip }) : fetchTodos({ limit, skip });
+  }
+  const all = await fetchAllTodos(userId);
+  const todos = all.todos.filter((todo) => matchesTodoFilters(todo, { status }));
+  return { todos: todos.slice(skip, skip + limit), total: todos.length, skip, limit };
+};
@@ -0,0 +1,27 @@
+import type { Todo } from "../api/todos";
+import type { TodoMeta } from "../context/TodoMetaContext";
+
+export type DueStatus = "overdue" | "today" | "upcoming";
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// YYYY-MM-DD in the user's time zone, the format <input type="date"> uses
+export const localDateKey = (date: Date = new Date()) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Completed todos are never overdue
+export const dueStatus = (todo: Todo, meta: TodoMeta | undefined): DueStatus | undefined => {
+  if (!meta?.dueDate || todo.completed) return undefined;
+  const today = localDateKey();
+  if (meta.dueDate < today) return "overdue";
+  return meta.dueDate === today ? "today" : "upcoming";
+};
+
+export const formatDueDate = (dueDate: string) =>
+  new Date(`${dueDate}T00:00`).toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" });
+
+// An ISO timestamp as the local "YYYY-MM-DDTHH:mm" <input type="datetime-local"> expects
+export const toDateTimeLocal = (iso: string) => {
+  const date = new Date(iso);
+  return `${localDateKey(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};